@@ -0,0 +1,113 @@
+// Mock survey stream for local testing: pushes revised and new rows derived from
+// src/assets/data.json as Server-Sent Events (GET /stream) and over a WebSocket (/ws).
+//
+//   node scripts/mock-stream-server.mjs [port] [intervalMs]
+//
+// Then provide `provideSseSurveyStream('http://localhost:4300/stream')` or
+// `provideWebSocketSurveyStream('ws://localhost:4300/ws')` in app.config.ts.
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? 4300);
+const intervalMs = Number(process.argv[3] ?? 3000);
+const rows = JSON.parse(readFileSync(new URL('../src/assets/data.json', import.meta.url), 'utf8'));
+
+const sseClients = new Set();
+const wsClients = new Set();
+
+const clamp = (n, min, max) => Math.min(max, Math.max(min, n));
+const jitter = (n, spread) => n + (Math.random() * 2 - 1) * spread;
+
+/** A revised copy of a random row (same identity), or now and then a new survey for its city. */
+function nextBatch() {
+  const batch = [];
+  const size = 1 + Math.floor(Math.random() * 3);
+  for (let i = 0; i < size; i++) {
+    const index = Math.floor(Math.random() * rows.length);
+    const { distribution, ...base } = rows[index];
+    const row = {
+      ...base,
+      nps: Math.round(clamp(jitter(base.nps, 8), -100, 100)),
+      csat: base.csat === undefined ? undefined : Math.round(clamp(jitter(base.csat, 5), 0, 100)),
+      ces: base.ces === undefined ? undefined : Math.round(clamp(jitter(base.ces, 0.4), 1, 7) * 10) / 10,
+      responseCount: base.responseCount + 1 + Math.floor(Math.random() * 20)
+    };
+    if (Math.random() < 0.2) {
+      row.surveyDate = new Date().toISOString();
+      row.responseCount = 5 + Math.floor(Math.random() * 40);
+    } else {
+      rows[index] = { ...row, distribution };
+    }
+    batch.push(row);
+  }
+  return batch;
+}
+
+/** Unmasked server-to-client text frame. */
+function wsFrame(text) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x81, length])
+      : length < 65536
+        ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x81, 127]), bigEndian64(length)]);
+  return Buffer.concat([header, payload]);
+}
+
+function bigEndian64(n) {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64BE(BigInt(n));
+  return buf;
+}
+
+const server = createServer((req, res) => {
+  if (req.url !== '/stream') {
+    res.writeHead(404).end();
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.write('retry: 3000\n\n');
+  sseClients.add(res);
+  req.on('close', () => sseClients.delete(res));
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.url !== '/ws' || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1')
+    .update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  wsClients.add(socket);
+  // Client frames are ignored; a close frame (opcode 8) ends the connection.
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) socket.end();
+  });
+  socket.on('close', () => wsClients.delete(socket));
+  socket.on('error', () => wsClients.delete(socket));
+});
+
+setInterval(() => {
+  if (sseClients.size === 0 && wsClients.size === 0) return;
+  const message = JSON.stringify(nextBatch());
+  for (const res of sseClients) res.write(`data: ${message}\n\n`);
+  for (const socket of wsClients) socket.write(wsFrame(message));
+}, intervalMs);
+
+server.listen(port, () => {
+  console.log(`Mock survey stream on http://localhost:${port}/stream and ws://localhost:${port}/ws`);
+});
@@ -3,11 +3,13 @@ import { provideRouter } from '@angular/router';
 import { provideHttpClient } from '@angular/common/http';
 
 import { routes } from './app.routes';
+import { CUSTOMER_HEALTH_METRIC, provideMetrics } from './services/metric-registry';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
-    provideHttpClient()
+    provideHttpClient(),
+    provideMetrics(CUSTOMER_HEALTH_METRIC)
   ]
 };
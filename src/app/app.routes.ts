@@ -1,7 +1,15 @@
 import { Routes } from '@angular/router';
-import { MapComponent } from './components/map/map.component';
+import { drillPathMatcher } from './utils/map-url-state';
 
+/**
+ * One route for every drill path (`/`, `/:country`, `/:country/:state`) so the map
+ * component is reused, not recreated, when navigating through the hierarchy. The map and
+ * Leaflet are loaded as their own chunk, after the application has started.
+ */
 export const routes: Routes = [
-  { path: '', component: MapComponent },
+  {
+    matcher: drillPathMatcher,
+    loadComponent: () => import('./components/map/map.component').then((m) => m.MapComponent)
+  },
   { path: '**', redirectTo: '' }
 ];
@@ -0,0 +1,81 @@
+import { Component, inject, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { AlertBreach, AlertCondition, AlertRule, MetricKey } from '../../models/survey-city';
+import { AlertRulesService } from '../../services/alert-rules.service';
+import { MetricRegistry } from '../../services/metric-registry';
+import { ALERT_CONDITIONS, describeAlertRule, isChangeCondition } from '../../utils/alert-rules';
+import { uniqueId } from '../../utils/element-id';
+
+/**
+ * Regions breaking an alert rule, each jumping to its region when clicked, and the rule
+ * editor. Rule edits go straight to `AlertRulesService`; `changed` tells the map to redraw
+ * its alert outlines.
+ */
+@Component({
+  selector: 'app-alerts-panel',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './alerts-panel.component.html',
+  styleUrl: './alerts-panel.component.css'
+})
+export class AlertsPanelComponent {
+  private readonly alertRules = inject(AlertRulesService);
+  private readonly metrics = inject(MetricRegistry);
+
+  readonly uid = uniqueId('alerts');
+
+  readonly alerts = input<AlertBreach[]>([]);
+  readonly alertSelect = output<AlertBreach>();
+  readonly changed = output<void>();
+
+  readonly rules = this.alertRules.rules;
+  readonly metricOptions = this.metrics.options;
+  readonly conditionOptions = ALERT_CONDITIONS;
+  readonly levelOptions: { value: AlertRule['level']; label: string }[] = [
+    { value: 'any', label: 'Any region' },
+    { value: 'country', label: 'Countries' },
+    { value: 'state', label: 'States' },
+    { value: 'city', label: 'Cities' }
+  ];
+
+  /** New rule being edited. */
+  readonly metric = signal<MetricKey>(this.metrics.get('csat') ? 'csat' : this.metrics.defaultKey);
+  readonly condition = signal<AlertCondition>('below');
+  readonly threshold = signal(60);
+  readonly minResponses = signal(100);
+  readonly level = signal<AlertRule['level']>('any');
+
+  describe(rule: AlertRule): string {
+    return describeAlertRule(rule, this.metrics.label(rule.metric));
+  }
+
+  /** "CSAT 54" or "NPS −12 since previous period". */
+  reading(breach: AlertBreach): string {
+    const label = this.metrics.label(breach.rule.metric);
+    const digits = this.metrics.decimals(breach.rule.metric);
+    if (isChangeCondition(breach.rule.condition) && breach.change !== undefined) {
+      const sign = breach.change > 0 ? '+' : '−';
+      return `${label} ${sign}${Math.abs(breach.change).toFixed(digits)} since previous period`;
+    }
+    return `${label} ${breach.value.toFixed(digits)}`;
+  }
+
+  addRule(): void {
+    const threshold = Number(this.threshold());
+    const minResponses = Math.max(0, Number(this.minResponses()) || 0);
+    if (!Number.isFinite(threshold)) return;
+    this.alertRules.add({
+      metric: this.metric(),
+      condition: this.condition(),
+      threshold,
+      minResponses,
+      level: this.level()
+    });
+    this.changed.emit();
+  }
+
+  removeRule(id: string): void {
+    this.alertRules.remove(id);
+    this.changed.emit();
+  }
+}
@@ -0,0 +1,72 @@
+import { Component, computed, effect, inject, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ColorScaleMode, MetricKey, PaletteId } from '../../models/survey-city';
+import { ColorThemeService } from '../../services/color-theme.service';
+import { MetricRegistry } from '../../services/metric-registry';
+import { COLOR_SCALE_MODES, PALETTES, parseCutoffs } from '../../utils/color-scale';
+
+/**
+ * Palette, scale mode and band cutoffs for the active metric. Edits go straight to
+ * `ColorThemeService`; `changed` tells the map to restyle its layers.
+ */
+@Component({
+  selector: 'app-color-settings',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './color-settings.component.html',
+  styleUrl: './color-settings.component.css'
+})
+export class ColorSettingsComponent {
+  private readonly colorTheme = inject(ColorThemeService);
+  private readonly metrics = inject(MetricRegistry);
+
+  readonly metric = input<MetricKey>('nps');
+  readonly changed = output<void>();
+
+  readonly paletteOptions = Object.values(PALETTES);
+  readonly modeOptions = COLOR_SCALE_MODES;
+
+  readonly theme = this.colorTheme.theme;
+  readonly metricLabel = computed(() => this.metrics.label(this.metric()));
+  readonly thresholds = computed(() => this.theme().thresholds[this.metric()]);
+  /** Text of the cutoff field; kept separately so partial input is not overwritten. */
+  readonly cutoffText = signal('');
+  readonly cutoffError = signal(false);
+
+  constructor() {
+    effect(() => {
+      this.cutoffText.set(this.thresholds().cutoffs.join(', '));
+      this.cutoffError.set(false);
+    });
+  }
+
+  onPaletteChange(palette: PaletteId): void {
+    this.colorTheme.update({ palette });
+    this.changed.emit();
+  }
+
+  onModeChange(mode: ColorScaleMode): void {
+    this.colorTheme.update({ mode });
+    this.changed.emit();
+  }
+
+  onCutoffsCommit(text: string): void {
+    const cutoffs = parseCutoffs(text);
+    if (!cutoffs) {
+      this.cutoffError.set(true);
+      return;
+    }
+    this.colorTheme.update({ thresholds: { [this.metric()]: { cutoffs } } });
+    this.changed.emit();
+  }
+
+  onHigherIsBetterChange(higherIsBetter: boolean): void {
+    this.colorTheme.update({ thresholds: { [this.metric()]: { higherIsBetter } } });
+    this.changed.emit();
+  }
+
+  reset(): void {
+    this.colorTheme.reset();
+    this.changed.emit();
+  }
+}
@@ -0,0 +1,134 @@
+import { Component, computed, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import {
+  CompareMode,
+  ComparisonSide,
+  ComparisonSides,
+  PeriodGranularity,
+  SurveyCity,
+  SurveyPeriod
+} from '../../models/survey-city';
+import { buildPeriods } from '../../utils/survey-period';
+import { dimensionValues } from '../../utils/segment-filter';
+import { uniqueId } from '../../utils/element-id';
+
+/** A selectable side: a period, or one value of a segment dimension over all dates. */
+interface SideOption {
+  key: string;
+  side: ComparisonSide;
+}
+
+function periodOption(period: SurveyPeriod): SideOption {
+  return { key: period.key, side: { label: period.label, range: { start: period.start, end: period.end } } };
+}
+
+function segmentOption(dimension: string, value: string): SideOption {
+  return {
+    key: value,
+    side: { label: value, range: { start: null, end: null }, segments: { [dimension]: [value] } }
+  };
+}
+
+/** `basis` value for comparing periods; any other value is a dimension name. */
+const PERIOD_BASIS = '';
+
+/**
+ * Picks the comparison mode and what to compare: two periods, or two values of a segment
+ * dimension (e.g. two products). Turning comparison on defaults to the two most recent
+ * periods at the chosen granularity.
+ */
+@Component({
+  selector: 'app-compare-panel',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './compare-panel.component.html',
+  styleUrl: './compare-panel.component.css'
+})
+export class ComparePanelComponent {
+  readonly uid = uniqueId('compare');
+
+  /** Full (unfiltered) survey data; used to derive the period list. */
+  readonly data = input<SurveyCity[]>([]);
+  readonly mode = input<CompareMode>('off');
+  readonly sides = input<ComparisonSides | null>(null);
+  readonly modeChange = output<CompareMode>();
+  readonly sidesChange = output<ComparisonSides>();
+
+  readonly granularity = signal<PeriodGranularity>('quarter');
+  /** '' to compare periods, otherwise the dimension whose values are compared. */
+  readonly basis = signal(PERIOD_BASIS);
+
+  readonly modeOptions: { value: CompareMode; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'swipe', label: 'Swipe' }
+  ];
+
+  readonly granularityOptions: { value: PeriodGranularity; label: string }[] = [
+    { value: 'week', label: 'Weeks' },
+    { value: 'month', label: 'Months' },
+    { value: 'quarter', label: 'Quarters' }
+  ];
+
+  readonly dimensions = computed(() => dimensionValues(this.data()));
+
+  readonly options = computed((): SideOption[] => {
+    const basis = this.basis();
+    if (basis === PERIOD_BASIS) return buildPeriods(this.data(), this.granularity()).map(periodOption);
+    const values = this.dimensions().find((d) => d.name === basis)?.values ?? [];
+    return values.map((value) => segmentOption(basis, value));
+  });
+
+  /** Keys of the options matching the current sides, or '' when a side is not in the list. */
+  readonly aKey = computed(() => this.keyFor(this.sides()?.a));
+  readonly bKey = computed(() => this.keyFor(this.sides()?.b));
+
+  onModeChange(mode: CompareMode): void {
+    this.modeChange.emit(mode);
+    if (mode !== 'off' && !this.sides()) this.selectLatest();
+  }
+
+  onBasisChange(basis: string): void {
+    this.basis.set(basis);
+    this.selectLatest();
+  }
+
+  onGranularityChange(granularity: PeriodGranularity): void {
+    this.granularity.set(granularity);
+    this.selectLatest();
+  }
+
+  onOptionChange(side: 'a' | 'b', key: string): void {
+    const option = this.options().find((o) => o.key === key);
+    const current = this.sides();
+    if (!option || !current) return;
+    this.sidesChange.emit({ ...current, [side]: option.side });
+  }
+
+  /** Swap A and B. */
+  swap(): void {
+    const current = this.sides();
+    if (current) this.sidesChange.emit({ a: current.b, b: current.a });
+  }
+
+  /** Default sides: the previous and latest period, or the first two dimension values. */
+  private selectLatest(): void {
+    const options = this.options();
+    if (options.length === 0) return;
+    if (this.basis() === PERIOD_BASIS) {
+      const b = options[options.length - 1];
+      const a = options[Math.max(0, options.length - 2)];
+      this.sidesChange.emit({ a: a.side, b: b.side });
+    } else {
+      this.sidesChange.emit({ a: options[0].side, b: options[Math.min(1, options.length - 1)].side });
+    }
+  }
+
+  private keyFor(side: ComparisonSide | undefined): string {
+    if (!side) return '';
+    const basis = this.basis();
+    if (basis !== PERIOD_BASIS) return side.segments?.[basis]?.[0] ?? '';
+    const { start, end } = side.range;
+    return this.options().find((o) => o.side.range.start === start && o.side.range.end === end)?.key ?? '';
+  }
+}
@@ -0,0 +1,51 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { MapDataService, StreamStatus } from '../../services/map-data.service';
+import { FileDataSource } from '../../services/data-sources/file-data-source';
+import { ImportWizardComponent } from '../import-wizard/import-wizard.component';
+
+/** Maximum number of validation issues listed before truncating. */
+const MAX_LISTED_ISSUES = 50;
+
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  off: 'Offline',
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…'
+};
+
+/**
+ * Shows which data source is active, lets the user load a CSV/JSON file instead,
+ * or run the column-mapping import, and reports rows that failed validation.
+ * With a survey stream configured it also shows whether it is live and when it last updated.
+ */
+@Component({
+  selector: 'app-data-source',
+  standalone: true,
+  imports: [DatePipe, ImportWizardComponent],
+  templateUrl: './data-source.component.html',
+  styleUrl: './data-source.component.css'
+})
+export class DataSourceComponent {
+  private readonly mapDataService = inject(MapDataService);
+
+  readonly sourceLabel = this.mapDataService.sourceLabel;
+  readonly validation = this.mapDataService.validation;
+  readonly streamStatus = this.mapDataService.streamStatus;
+  readonly lastUpdated = this.mapDataService.lastUpdated;
+  readonly streamStatusLabel = computed(() => STREAM_STATUS_LABELS[this.streamStatus()]);
+  readonly importOpen = signal(false);
+
+  readonly listedIssues = computed(() => this.validation()?.issues.slice(0, MAX_LISTED_ISSUES) ?? []);
+  readonly hiddenIssueCount = computed(() =>
+    Math.max(0, (this.validation()?.issues.length ?? 0) - MAX_LISTED_ISSUES)
+  );
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    this.mapDataService.useSource(new FileDataSource(file));
+    input.value = '';
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Component,
+  ElementRef,
+  afterRenderEffect,
+  computed,
+  effect,
+  inject,
+  input,
+  output,
+  signal
+} from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { DrillLevel, MetricKey, SurveyAggregate, SurveyCity } from '../../models/survey-city';
+import { MetricRegistry } from '../../services/metric-registry';
+import { itemKey } from '../../utils/comparison';
+
+/** Rows per table page. */
+const PAGE_SIZE = 25;
+
+const NAME_LABELS: Record<DrillLevel, string> = {
+  country: 'Country',
+  state: 'State',
+  city: 'City'
+};
+
+/** A fixed column, or `metric:<key>` for a registered metric. */
+type SortColumn = 'name' | 'responseCount' | 'surveyDate' | `metric:${MetricKey}`;
+
+/** One table row; `item` is what the map drew for it. */
+interface TableRow {
+  key: string;
+  name: string;
+  /** Value per registered metric. */
+  values: Record<MetricKey, number | undefined>;
+  responseCount: number;
+  surveyDate?: string;
+  item: SurveyAggregate | SurveyCity;
+}
+
+/** The row's value in a column; NaN counts as missing. */
+function cell(row: TableRow, column: SortColumn): string | number | undefined {
+  let value: string | number | undefined;
+  switch (column) {
+    case 'name':
+    case 'responseCount':
+    case 'surveyDate':
+      value = row[column];
+      break;
+    default:
+      value = row.values[column.slice('metric:'.length)];
+  }
+  return typeof value === 'number' && Number.isNaN(value) ? undefined : value;
+}
+
+/** `direction` is 1 ascending, -1 descending; missing values sort last either way. */
+function compareRows(a: TableRow, b: TableRow, column: SortColumn, direction: number): number {
+  const x = cell(a, column);
+  const y = cell(b, column);
+  if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+  const order =
+    typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+  return order * direction;
+}
+
+/**
+ * Sortable, paginated table of what the map currently shows. Row hover and click are
+ * reported to the parent; `selectedKey` (set from the map) pages to and scrolls to a row.
+ */
+@Component({
+  selector: 'app-data-table',
+  standalone: true,
+  imports: [DatePipe],
+  templateUrl: './data-table.component.html',
+  styleUrl: './data-table.component.css'
+})
+export class DataTableComponent {
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly metrics = inject(MetricRegistry);
+
+  readonly items = input<(SurveyAggregate | SurveyCity)[]>([]);
+  readonly level = input<DrillLevel>('country');
+  readonly selectedKey = input<string | null>(null);
+  readonly rowHover = output<string | null>();
+  readonly rowSelect = output<SurveyAggregate | SurveyCity>();
+
+  readonly sortColumn = signal<SortColumn>('responseCount');
+  readonly sortDescending = signal(true);
+  readonly page = signal(0);
+
+  /** Metric columns, one per registered metric in selector order. */
+  readonly metricColumns = this.metrics.metrics.map((m) => ({
+    id: `metric:${m.key}` as const,
+    key: m.key,
+    label: m.label
+  }));
+
+  readonly columns = computed((): { id: SortColumn; label: string }[] => [
+    { id: 'name', label: NAME_LABELS[this.level()] },
+    ...this.metricColumns,
+    { id: 'responseCount', label: 'Responses' },
+    { id: 'surveyDate', label: 'Latest survey' }
+  ]);
+
+  readonly rows = computed(() => {
+    const column = this.sortColumn();
+    const direction = this.sortDescending() ? -1 : 1;
+    return this.items()
+      .map((item) => this.toRow(item))
+      .sort((a, b) => compareRows(a, b, column, direction));
+  });
+
+  readonly pageCount = computed(() => Math.max(1, Math.ceil(this.rows().length / PAGE_SIZE)));
+  readonly pageRows = computed(() => {
+    const start = this.page() * PAGE_SIZE;
+    return this.rows().slice(start, start + PAGE_SIZE);
+  });
+
+  constructor() {
+    // New data (drill, filter) starts from the first page.
+    effect(() => {
+      this.items();
+      this.page.set(0);
+    });
+    // Page to the row selected on the map.
+    effect(() => {
+      const key = this.selectedKey();
+      if (!key) return;
+      const index = this.rows().findIndex((r) => r.key === key);
+      if (index >= 0) this.page.set(Math.floor(index / PAGE_SIZE));
+    });
+    afterRenderEffect(() => {
+      const key = this.selectedKey();
+      this.pageRows();
+      if (!key) return;
+      const row = this.host.nativeElement.querySelector<HTMLElement>(
+        `tr[data-key="${CSS.escape(key)}"]`
+      );
+      row?.scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  sortBy(column: SortColumn): void {
+    if (this.sortColumn() === column) {
+      this.sortDescending.update((d) => !d);
+    } else {
+      this.sortColumn.set(column);
+      this.sortDescending.set(column !== 'name');
+    }
+    this.page.set(0);
+  }
+
+  ariaSort(column: SortColumn): 'ascending' | 'descending' | 'none' {
+    if (this.sortColumn() !== column) return 'none';
+    return this.sortDescending() ? 'descending' : 'ascending';
+  }
+
+  goToPage(page: number): void {
+    this.page.set(Math.max(0, Math.min(this.pageCount() - 1, page)));
+  }
+
+  format(value: number | undefined, metric: MetricKey): string {
+    return this.metrics.format(value, metric);
+  }
+
+  private toRow(item: SurveyAggregate | SurveyCity): TableRow {
+    const values: Record<MetricKey, number | undefined> = {};
+    for (const key of this.metrics.keys) values[key] = this.metrics.value(item, key);
+    return {
+      key: itemKey(item),
+      name: 'level' in item ? item.name : item.city,
+      values,
+      responseCount: item.responseCount,
+      surveyDate: item.surveyDate,
+      item
+    };
+  }
+}
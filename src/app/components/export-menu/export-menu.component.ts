@@ -0,0 +1,25 @@
+import { Component, input, output } from '@angular/core';
+import { ExportFormat } from '../../utils/view-export';
+
+/**
+ * Export choices for the current view: the drawn rows as CSV or GeoJSON, or an image of the
+ * map. The parent builds the files; `busy` and `error` report on the last export.
+ */
+@Component({
+  selector: 'app-export-menu',
+  standalone: true,
+  templateUrl: './export-menu.component.html',
+  styleUrl: './export-menu.component.css'
+})
+export class ExportMenuComponent {
+  readonly busy = input(false);
+  readonly error = input<string | null>(null);
+  readonly exportAs = output<ExportFormat>();
+
+  readonly options: { format: ExportFormat; label: string }[] = [
+    { format: 'csv', label: 'Data (CSV)' },
+    { format: 'geojson', label: 'Data (GeoJSON)' },
+    { format: 'png', label: 'Image (PNG)' },
+    { format: 'svg', label: 'Image (SVG)' }
+  ];
+}
@@ -0,0 +1,26 @@
+import { Component, computed, input, output } from '@angular/core';
+import { SegmentFilter } from '../../models/survey-city';
+
+/** Removable chip per active segment filter value, shown beside the drill-down breadcrumb. */
+@Component({
+  selector: 'app-filter-chips',
+  standalone: true,
+  templateUrl: './filter-chips.component.html',
+  styleUrl: './filter-chips.component.css'
+})
+export class FilterChipsComponent {
+  readonly filter = input<SegmentFilter>({});
+  readonly filterChange = output<SegmentFilter>();
+
+  readonly chips = computed(() =>
+    Object.entries(this.filter()).flatMap(([name, values]) => values.map((value) => ({ name, value })))
+  );
+
+  remove(name: string, value: string): void {
+    const next = { ...this.filter() };
+    const values = (next[name] ?? []).filter((v) => v !== value);
+    if (values.length > 0) next[name] = values;
+    else delete next[name];
+    this.filterChange.emit(next);
+  }
+}
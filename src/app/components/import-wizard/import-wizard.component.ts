@@ -0,0 +1,202 @@
+import { Component, DestroyRef, computed, inject, output, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ColumnMapping, SurveyImportField, SurveyRowIssue, TabularData } from '../../models/survey-city';
+import { MapDataService } from '../../services/map-data.service';
+import { RowsDataSource } from '../../services/data-sources/rows-data-source';
+import { GeocodeRowsResult, GeocodingService } from '../../services/geocoding/geocoding.service';
+import {
+  IMPORT_FIELDS,
+  applyColumnMapping,
+  guessColumnMapping,
+  guessDimensionColumns,
+  missingRequiredFields
+} from '../../utils/column-mapping';
+import { readTabularFile } from '../../utils/tabular-file';
+import { validateSurveyRows } from '../../utils/survey-validation';
+
+type WizardStep = 'upload' | 'map' | 'review';
+
+/** Number of mapped rows shown in the preview table. */
+const PREVIEW_ROWS = 5;
+
+/** Row that cannot be plotted until its coordinates are looked up. */
+export interface UnlocatedRow {
+  row: number;
+  place: string;
+  /** Why the lookup step could not resolve it, once the lookup has run. */
+  reason?: string;
+}
+
+/**
+ * Import flow for CSV/XLSX exports: upload, map columns to SurveyCity fields,
+ * review validation results, then load the valid rows into the map.
+ */
+@Component({
+  selector: 'app-import-wizard',
+  standalone: true,
+  templateUrl: './import-wizard.component.html',
+  styleUrl: './import-wizard.component.css'
+})
+export class ImportWizardComponent {
+  private readonly mapDataService = inject(MapDataService);
+  private readonly geocoding = inject(GeocodingService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly closed = output<void>();
+
+  readonly fields = IMPORT_FIELDS;
+  readonly step = signal<WizardStep>('upload');
+  readonly fileName = signal('');
+  readonly reading = signal(false);
+  readonly readError = signal<string | null>(null);
+  readonly table = signal<TabularData | null>(null);
+  readonly mapping = signal<ColumnMapping>({});
+  /** Columns imported as segment dimensions (product, channel, tier…). */
+  readonly dimensionColumns = signal<number[]>([]);
+  /** Result of the location lookup step; cleared whenever the mapping changes. */
+  readonly lookup = signal<GeocodeRowsResult | null>(null);
+  readonly lookingUp = signal(false);
+  /** Why the last location lookup failed (e.g. the gazetteer could not be fetched). */
+  readonly lookupError = signal<string | null>(null);
+
+  readonly missingFields = computed(() => missingRequiredFields(this.mapping()));
+
+  /** Mapped raw records, one per data row, with looked-up coordinates applied. */
+  readonly records = computed(() => {
+    const lookup = this.lookup();
+    if (lookup) return lookup.rows as Record<string, string>[];
+    const table = this.table();
+    return table ? applyColumnMapping(table, this.mapping(), this.dimensionColumns()) : [];
+  });
+
+  readonly validation = computed(() => validateSurveyRows(this.records()));
+
+  /** Unresolved lookups by row, to explain why a row is still unlocated. */
+  private readonly lookupFailures = computed(
+    () => new Map((this.lookup()?.unresolved ?? []).map((u) => [u.row, u.reason]))
+  );
+
+  /** Rows with a place name but no coordinates; these need the lookup step. */
+  readonly unlocatedRows = computed<UnlocatedRow[]>(() =>
+    this.records()
+      .map((r, i) => ({ r, row: i + 1 }))
+      .filter(({ r }) => (!r['latitude'] || !r['longitude']) && !!(r['city'] || r['state'] || r['country']))
+      .map(({ r, row }) => ({
+        row,
+        place: [r['city'], r['state'], r['country']].filter(Boolean).join(', '),
+        reason: this.lookupFailures().get(row)
+      }))
+  );
+
+  /** Validation issues other than the missing coordinates already listed in `unlocatedRows`. */
+  readonly otherIssues = computed<SurveyRowIssue[]>(() => {
+    const unlocated = new Set(this.unlocatedRows().map((u) => u.row));
+    return this.validation().issues.filter(
+      (issue) =>
+        !(unlocated.has(issue.row) && (issue.field === 'latitude' || issue.field === 'longitude') && issue.message.startsWith('Missing'))
+    );
+  });
+
+  readonly previewRows = computed(() => this.records().slice(0, PREVIEW_ROWS));
+
+  /** Columns not assigned to a field; any of them can be imported as a dimension. */
+  readonly unmappedColumns = computed(() => {
+    const table = this.table();
+    if (!table) return [];
+    const mapped = new Set(Object.values(this.mapping()));
+    return table.headers
+      .map((header, index) => ({ header: header.trim(), index }))
+      .filter(({ header, index }) => header && !mapped.has(index));
+  });
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.fileName.set(file.name);
+    this.lookup.set(null);
+    this.reading.set(true);
+    this.readError.set(null);
+    readTabularFile(file)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (table) => {
+          this.reading.set(false);
+          if (table.headers.length === 0 || table.rows.length === 0) {
+            this.readError.set(`${file.name} has no data rows`);
+            return;
+          }
+          this.table.set(table);
+          const mapping = guessColumnMapping(table.headers);
+          this.mapping.set(mapping);
+          this.dimensionColumns.set(guessDimensionColumns(table.headers, mapping));
+          this.step.set('map');
+        },
+        error: (err) => {
+          this.reading.set(false);
+          this.readError.set(err?.message ?? `Could not read ${file.name}`);
+        }
+      });
+  }
+
+  /** Assign a column (by index as string; '' to unmap) to a field. */
+  setColumn(field: SurveyImportField, value: string): void {
+    this.lookup.set(null);
+    this.mapping.update((m) => {
+      const next = { ...m };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    // A column mapped to a field can no longer be a dimension.
+    if (value !== '') this.dimensionColumns.update((columns) => columns.filter((c) => c !== Number(value)));
+  }
+
+  toggleDimension(index: number, selected: boolean): void {
+    this.lookup.set(null);
+    this.dimensionColumns.update((columns) =>
+      selected ? [...columns, index] : columns.filter((c) => c !== index)
+    );
+  }
+
+  columnFor(field: SurveyImportField): string {
+    const index = this.mapping()[field];
+    return index === undefined ? '' : String(index);
+  }
+
+  goTo(step: WizardStep): void {
+    this.step.set(step);
+  }
+
+  /** Resolve unlocated rows against the offline gazetteer. */
+  lookUpLocations(): void {
+    this.lookingUp.set(true);
+    this.lookupError.set(null);
+    this.geocoding
+      .fillCoordinates(this.records())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (result) => {
+          this.lookingUp.set(false);
+          this.lookup.set(result);
+        },
+        error: (err) => {
+          this.lookingUp.set(false);
+          this.lookupError.set(err?.message ?? 'Could not load the offline gazetteer');
+        }
+      });
+  }
+
+  /** Load the valid rows into the map and close. */
+  importRows(): void {
+    const { valid } = this.validation();
+    if (valid.length === 0) return;
+    this.mapDataService.useSource(new RowsDataSource(valid, this.fileName()));
+    this.closed.emit();
+  }
+
+  cancel(): void {
+    this.closed.emit();
+  }
+}
@@ -0,0 +1,46 @@
+import { Component, input, output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { LowSampleTreatment } from '../../models/survey-city';
+import { LegendRange, NO_DATA_COLOR } from '../../utils/color-scale';
+import { uniqueId } from '../../utils/element-id';
+
+/**
+ * Color scale for the active metric (bands, or a gradient with ticks) plus the low-sample rule: markers with fewer than
+ * `minSample` responses are drawn with `treatment`, which the user can change here. Regions without a value get a
+ * "No data" entry, and `coverage` notes how many responses report the metric.
+ */
+@Component({
+  selector: 'app-legend',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './legend.component.html',
+  styleUrl: './legend.component.css'
+})
+export class LegendComponent {
+  readonly uid = uniqueId('legend');
+  readonly title = input('');
+  readonly ranges = input<LegendRange[]>([]);
+  /** CSS gradient for continuous scales; `ranges` are then shown as ticks beneath it. */
+  readonly gradient = input<string | null>(null);
+  /** Some drawn region has no value for the metric. */
+  readonly noData = input(false);
+  /** E.g. "CSAT reported by 80% of responses in view"; null when all report it. */
+  readonly coverage = input<string | null>(null);
+  readonly minSample = input(0);
+  readonly treatment = input<LowSampleTreatment>('fade');
+  readonly minSampleChange = output<number>();
+  readonly treatmentChange = output<LowSampleTreatment>();
+
+  readonly noDataColor = NO_DATA_COLOR;
+
+  readonly treatmentOptions: { value: LowSampleTreatment; label: string }[] = [
+    { value: 'fade', label: 'Faded' },
+    { value: 'hatch', label: 'Hatched' },
+    { value: 'hide', label: 'Hidden' }
+  ];
+
+  onMinSampleInput(value: number | string | null): void {
+    const n = Math.floor(Number(value));
+    this.minSampleChange.emit(Number.isFinite(n) && n > 0 ? n : 0);
+  }
+}
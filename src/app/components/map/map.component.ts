@@ -2,71 +2,166 @@ import {
   AfterViewInit,
   Component,
   DestroyRef,
+  ElementRef,
   inject,
+  input,
+  output,
   signal,
   computed,
+  effect,
+  untracked,
+  viewChild,
   ChangeDetectorRef,
   OnDestroy
 } from '@angular/core';
-import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import * as L from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, Subscription, finalize, forkJoin, from, map, merge, of, switchMap } from 'rxjs';
 import { MapDataService } from '../../services/map-data.service';
-import { GeoService, geoNameForCountry } from '../../services/geo.service';
+import { GeoService, countryFeatureKey, featureKeys } from '../../services/geo.service';
+import { GeocodingService } from '../../services/geocoding/geocoding.service';
+import { BasemapProvider, MAP_PROVIDERS, defaultBasemapKey } from '../../services/map-providers';
+import { normalizePlaceName } from '../../utils/place-name';
+import { MetricRollup, detractorShare, npsBreakdown } from '../../utils/response-distribution';
+import {
+  RegionRollup,
+  aggregateCities,
+  aggregateRows,
+  reuseUnchanged,
+  rollupCities
+} from '../../utils/region-rollup';
+import { RegionRollupService } from '../../services/region-rollup.service';
+import { applyHatch } from '../../utils/hatch-pattern';
+import { MarkerCluster, clusterByGrid } from '../../utils/marker-cluster';
+import { hexCorners, hexbin } from '../../utils/hexbin';
+import { HeatLayer } from '../../utils/heat-layer';
+import {
+  MapUrlState,
+  MapViewport,
+  mapUrlCommands,
+  mapUrlQueryParams,
+  parseMapUrlState,
+  drillLevelOf,
+  sameViewport
+} from '../../utils/map-url-state';
 import {
   SurveyCity,
   SurveyMetric,
+  MetricKey,
+  AlertBreach,
   SurveyAggregate,
   DisplayType,
-  DrillLevel
+  DrillLevel,
+  DateRange,
+  LowSampleTreatment,
+  MetricConfidence,
+  CompareMode,
+  ComparisonSide,
+  ComparisonSides,
+  HeatWeight,
+  SegmentFilter
 } from '../../models/survey-city';
+import { ColorThemeOverrides, ColorThemeService } from '../../services/color-theme.service';
+import { MetricRegistry } from '../../services/metric-registry';
+import {
+  endToDateInput,
+  filterByDateRange,
+  isOpenRange,
+  startToDateInput
+} from '../../utils/survey-period';
+import { TimelineComponent } from '../timeline/timeline.component';
+import { DataSourceComponent } from '../data-source/data-source.component';
+import { LegendComponent } from '../legend/legend.component';
+import { ColorSettingsComponent } from '../color-settings/color-settings.component';
+import { ComparePanelComponent } from '../compare-panel/compare-panel.component';
+import { SwipeDividerComponent } from '../swipe-divider/swipe-divider.component';
+import { SegmentFilterComponent } from '../segment-filter/segment-filter.component';
+import { FilterChipsComponent } from '../filter-chips/filter-chips.component';
+import { uniqueId } from '../../utils/element-id';
+import { DataTableComponent } from '../data-table/data-table.component';
+import { ExportMenuComponent } from '../export-menu/export-menu.component';
+import { filterBySegments, hasSegmentFilter, segmentFilterLabel } from '../../utils/segment-filter';
+import {
+  ExportFormat,
+  downloadBlob,
+  exportFileName,
+  exportRows,
+  exportRowsToCsv,
+  exportRowsToGeoJson
+} from '../../utils/view-export';
+import { MapSnapshot, SnapshotPane, mapSnapshotSvg, snapshotToPng } from '../../utils/map-snapshot';
+import {
+  ComparedItem,
+  formatDelta,
+  itemKey,
+  maxAbsDelta,
+  metricDelta,
+  pairComparison,
+  placeKey
+} from '../../utils/comparison';
+import { mergeSurveyRows } from '../../utils/survey-merge';
+import { LevelItems, alertWindows, evaluateAlertRules, isChangeCondition } from '../../utils/alert-rules';
+import { AlertRulesService } from '../../services/alert-rules.service';
+import { AlertsPanelComponent } from '../alerts-panel/alerts-panel.component';
+import { FocusTarget, RegionKeyboardNav } from '../../utils/region-keyboard-nav';
+import { RegionSearchComponent } from '../region-search/region-search.component';
+import { RegionSearchResult } from '../../utils/region-search';
+import { RegionDetailComponent } from '../region-detail/region-detail.component';
 
 /** Minimum and maximum radius for circle markers (pixels). */
 const RADIUS_MIN = 5;
 const RADIUS_MAX = 25;
 const RADIUS_DIVISOR = 10;
 
-/** Safe numeric value for metrics (handles NaN/undefined). */
-export function safeMetricValue(value: number | undefined): number {
-  const n = Number(value);
-  return typeof value === 'number' && !Number.isNaN(n) ? n : 0;
-}
+/** Default minimum responses before a marker is drawn as a reliable score. */
+const DEFAULT_MIN_SAMPLE = 30;
+/** Opacity multiplier for faded (low-sample) markers. */
+const LOW_SAMPLE_FADE = 0.35;
+/** Dashed outline of regions with no value for the metric (filled with the "no data" gray). */
+const NO_DATA_DASH = '4 3';
 
-/** Format metric for display; use "—" when value is missing or NaN. */
-export function formatMetricValue(value: number | undefined, metric: SurveyMetric): string {
-  const n = safeMetricValue(value);
-  if (typeof value !== 'number' || Number.isNaN(value)) return '—';
-  if (metric === 'ces') return n.toFixed(1);
-  return String(Math.round(n));
-}
+/** Grid cell size (pixels) for clustering city markers. */
+const CLUSTER_CELL_PX = 60;
+/** From this zoom on, city markers are drawn individually. */
+const CLUSTER_MAX_ZOOM = 14;
+const CLUSTER_RADIUS_MIN = 12;
+const CLUSTER_RADIUS_MAX = 30;
 
-export function getColor(metric: SurveyMetric, value: number): string {
-  const v = safeMetricValue(value);
-  switch (metric) {
-    case 'nps':
-      if (v >= 50) return '#22c55e';
-      if (v >= 0) return '#eab308';
-      return '#ef4444';
-    case 'csat':
-      if (v >= 80) return '#22c55e';
-      if (v >= 60) return '#eab308';
-      return '#ef4444';
-    case 'ces':
-      if (v < 3) return '#22c55e';
-      if (v <= 5) return '#eab308';
-      return '#ef4444';
-    default:
-      return '#6b7280';
-  }
-}
+/** Hexagon size (center to corner) in screen pixels, so bins cover less ground when zoomed in. */
+const HEX_RADIUS_PX = 22;
+/** Duration of the transition when a streamed update changes a marker. */
+const UPDATE_ANIMATION_MS = 600;
+/** Invisible hit area around each city in heatmap view, for tooltips and hover. */
+const HEAT_HIT_RADIUS = 8;
+
+/** Leaflet panes holding side A and side B of a swipe comparison. */
+const PANE_A = 'compareA';
+const PANE_B = 'compareB';
 
-export const METRIC_LABELS: Record<SurveyMetric, string> = {
-  nps: 'NPS',
-  csat: 'CSAT',
-  ces: 'CES'
+/** How low-sample items are drawn, as worded in exported legends. */
+const LOW_SAMPLE_LABELS: Record<LowSampleTreatment, string> = {
+  fade: 'faded',
+  hatch: 'hatched',
+  hide: 'hidden'
 };
 
+/** Pane for the outline base map, between the tiles (200) and overlays (400). */
+const BASEMAP_PANE = 'basemap';
+
+/** Leaflet panes copied into image exports, bottom to top. */
+const SNAPSHOT_PANES = ['tilePane', BASEMAP_PANE, 'overlayPane', PANE_A, PANE_B, 'markerPane'];
+
+/** Pulsing ring around regions that break an alert rule. */
+const ALERT_COLOR = '#dc2626';
+const ALERT_RING_PX = 36;
+
+/** Outline of the map layers for the table row under the pointer. */
+const HIGHLIGHT_COLOR = '#2563eb';
+
 /** Format ISO date for display (e.g. "Nov 15, 2024 09:30"). */
 function formatSurveyTime(iso?: string): string {
   if (!iso) return '—';
@@ -84,149 +179,342 @@ function formatSurveyTime(iso?: string): string {
   }
 }
 
-/** Aggregate cities by country. */
-function aggregateByCountry(cities: SurveyCity[]): SurveyAggregate[] {
-  const byCountry = new Map<string, { lat: number; lng: number; nps: number; csat: number; ces: number; count: number; date?: string }>();
-  for (const c of cities) {
-    const key = c.country;
-    const existing = byCountry.get(key);
-    const count = c.responseCount;
-    const nps = Number(c.nps);
-    const csat = typeof c.csat === 'number' && !Number.isNaN(c.csat) ? c.csat : 50;
-    const ces = typeof c.ces === 'number' && !Number.isNaN(c.ces) ? c.ces : 3;
-    if (!existing) {
-      byCountry.set(key, {
-        lat: c.latitude * count,
-        lng: c.longitude * count,
-        nps: (Number.isNaN(nps) ? 0 : nps) * count,
-        csat: csat * count,
-        ces: ces * count,
-        count,
-        date: c.surveyDate
-      });
-    } else {
-      existing.lat += c.latitude * count;
-      existing.lng += c.longitude * count;
-      existing.nps += (Number.isNaN(nps) ? 0 : nps) * count;
-      existing.csat += csat * count;
-      existing.ces += ces * count;
-      existing.count += count;
-      if (c.surveyDate && (!existing.date || c.surveyDate > (existing.date ?? ''))) existing.date = c.surveyDate;
-    }
-  }
-  return Array.from(byCountry.entries()).map(([name, agg]) => ({
-    name,
-    latitude: agg.lat / agg.count,
-    longitude: agg.lng / agg.count,
-    nps: agg.nps / agg.count,
-    csat: agg.csat / agg.count,
-    ces: agg.ces / agg.count,
-    responseCount: agg.count,
-    surveyDate: agg.date,
-    level: 'country' as DrillLevel
-  }));
+/** "Promoters 45% · Passives 30% · Detractors 25%" from an NPS distribution, or null. */
+function formatNpsBreakdown(buckets?: number[]): string | null {
+  if (!buckets) return null;
+  const { promoters, passives, detractors, total } = npsBreakdown(buckets);
+  if (total === 0) return null;
+  const pct = (n: number) => `${Math.round((n / total) * 100)}%`;
+  return `Promoters ${pct(promoters)} · Passives ${pct(passives)} · Detractors ${pct(detractors)}`;
+}
+
+/** 95% confidence for an aggregate (precomputed) or a single city row. */
+function metricConfidence(item: SurveyAggregate | SurveyCity, metric: SurveyMetric): MetricConfidence | undefined {
+  if (isAggregate(item)) return item.confidence?.[metric];
+  const rollup = new MetricRollup(metric);
+  rollup.add(item[metric], item.responseCount, item.distribution?.[metric]);
+  return rollup.confidence();
+}
+
+/** "NPS ±8 (95% CI 34–50)", or null when no interval can be estimated. */
+function formatConfidence(
+  confidence: MetricConfidence | undefined,
+  label: string,
+  format: (value: number) => string
+): string | null {
+  if (!confidence) return null;
+  return `${label} ±${format(confidence.moe)} (95% CI ${format(confidence.low)}–${format(confidence.high)})`;
+}
+
+/** "CSAT reported by 120 of 200 responses (60%)", "No CSAT data", or null when all report it. */
+function formatCoverage(label: string, reported: number | undefined, total: number): string | null {
+  if (reported === undefined || total <= 0 || reported >= total) return null;
+  if (reported === 0) return `No ${label} data`;
+  return `${label} reported by ${reported} of ${total} responses (${Math.round((reported / total) * 100)}%)`;
+}
+
+/** Color and value for one region of a choropleth layer. */
+interface ChoroplethEntry {
+  value: number | undefined;
+  color: string;
+  agg: SurveyAggregate;
+}
+
+/** Admin-1 features are matched on their normalized `name`. */
+function stateFeatureKeys(feature: Feature): string[] {
+  const name = feature.properties?.['name'];
+  return typeof name === 'string' ? [normalizePlaceName(name)] : [];
+}
+
+/** True for country/state aggregates (as opposed to raw city rows). */
+function isAggregate(d: SurveyAggregate | SurveyCity): d is SurveyAggregate {
+  return 'level' in d && 'name' in d;
+}
+
+/** What the map shows at a drill level: country or state aggregates, or the selected cities. */
+function dataForLevel(
+  rows: SurveyCity[],
+  rollup: RegionRollup,
+  level: DrillLevel,
+  country: string | null,
+  state: string | null
+): (SurveyAggregate | SurveyCity)[] {
+  if (level === 'country') return rollup.countries;
+  if (level === 'state' && country) return rollup.states.get(country) ?? [];
+  if (level === 'city') return rollupCities(rollup, rows, country, state || null);
+  return [];
+}
+
+/**
+ * Items of every drill level, from the same rollup that feeds the map. Cities are rolled up
+ * per place, so a city surveyed on several dates counts as one region.
+ */
+function levelItems(rows: SurveyCity[], rollup: RegionRollup): LevelItems {
+  return {
+    country: rollup.countries,
+    state: [...rollup.states.values()].flat(),
+    city: aggregateCities(rows)
+  };
+}
+
+/** Response-weighted aggregate of the cities in one marker cluster. */
+function aggregateCluster(cities: SurveyCity[]): SurveyAggregate {
+  return aggregateRows(cities, `${cities.length} cities`, 'city');
+}
+
+/** Memo key of a filtered selection: every filter that picked its rows. */
+function rollupKey(...filters: unknown[]): string {
+  return JSON.stringify(filters);
+}
+
+/** What a region search result points at; null when it is not in the data. */
+type SearchItem = SurveyAggregate | SurveyCity | null;
+
+/** Rows picked by some filters other than the map's own, with their rollup memo key. */
+interface RowSubset {
+  key: string;
+  rows: SurveyCity[];
+}
+
+/** Where a region's layer sits: a marker's position or a polygon's center. */
+function layerCenter(layer: L.Layer): L.LatLng | null {
+  if (layer instanceof L.CircleMarker || layer instanceof L.Marker) return layer.getLatLng();
+  if (layer instanceof L.Polygon) return layer.getBounds().getCenter();
+  return null;
 }
 
-/** Aggregate cities by state within a country. */
-function aggregateByState(cities: SurveyCity[], country: string): SurveyAggregate[] {
-  const filtered = cities.filter((c) => c.country === country);
-  const byState = new Map<string, { lat: number; lng: number; nps: number; csat: number; ces: number; count: number; date?: string }>();
-  for (const c of filtered) {
-    const key = c.state || c.country;
-    const existing = byState.get(key);
-    const count = c.responseCount;
-    const nps = Number(c.nps);
-    const csat = typeof c.csat === 'number' && !Number.isNaN(c.csat) ? c.csat : 50;
-    const ces = typeof c.ces === 'number' && !Number.isNaN(c.ces) ? c.ces : 3;
-    if (!existing) {
-      byState.set(key, {
-        lat: c.latitude * count,
-        lng: c.longitude * count,
-        nps: (Number.isNaN(nps) ? 0 : nps) * count,
-        csat: csat * count,
-        ces: ces * count,
-        count,
-        date: c.surveyDate
+/** Tooltip HTML as one line of plain text for screen readers. */
+function tooltipText(html: string): string {
+  const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '. '), 'text/html');
+  return (doc.body.textContent ?? '').replace(/\s+/g, ' ').trim() + '.';
+}
+
+/** Grow or shrink a replaced circle from its old size and position; pulse a time label. */
+function animateMarkerChange(layer: L.Layer, previous: L.Layer | undefined): void {
+  if (layer instanceof L.CircleMarker) {
+    const radius = layer.getRadius();
+    const to = layer.getLatLng();
+    const old = previous instanceof L.CircleMarker ? previous : null;
+    const fromRadius = old ? old.getRadius() : 0;
+    const from = old ? old.getLatLng() : to;
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / UPDATE_ANIMATION_MS);
+      const eased = 1 - (1 - t) ** 3;
+      layer.setRadius(fromRadius + (radius - fromRadius) * eased);
+      layer.setLatLng([from.lat + (to.lat - from.lat) * eased, from.lng + (to.lng - from.lng) * eased]);
+      if (t < 1) requestAnimationFrame(step);
+    };
+    requestAnimationFrame(step);
+  } else if (layer instanceof L.Marker) {
+    layer
+      .getElement()
+      ?.querySelector('.survey-time-label')
+      ?.animate([{ transform: 'scale(1.3)' }, { transform: 'scale(1)' }], {
+        duration: UPDATE_ANIMATION_MS,
+        easing: 'ease-out'
       });
-    } else {
-      existing.lat += c.latitude * count;
-      existing.lng += c.longitude * count;
-      existing.nps += (Number.isNaN(nps) ? 0 : nps) * count;
-      existing.csat += csat * count;
-      existing.ces += ces * count;
-      existing.count += count;
-      if (c.surveyDate && (!existing.date || c.surveyDate > (existing.date ?? ''))) existing.date = c.surveyDate;
-    }
-  }
-  return Array.from(byState.entries()).map(([name, agg]) => ({
-    name,
-    country,
-    state: name,
-    latitude: agg.lat / agg.count,
-    longitude: agg.lng / agg.count,
-    nps: agg.nps / agg.count,
-    csat: agg.csat / agg.count,
-    ces: agg.ces / agg.count,
-    responseCount: agg.count,
-    surveyDate: agg.date,
-    level: 'state' as DrillLevel
-  }));
+  }
+}
+
+/** Density displays draw the cities of the selection instead of the drill level's items. */
+function isDensityDisplay(displayType: DisplayType): boolean {
+  return displayType === 'heatmap' || displayType === 'hexbin';
+}
+
+/** Tooltip heading: the region name, or "City, State, Country". */
+function itemLabel(item: SurveyAggregate | SurveyCity): string {
+  if (isAggregate(item)) return item.name;
+  return `${item.city}, ${item.state ? item.state + ', ' : ''}${item.country}`;
+}
+
+/** "Paris, Lyon, Nice +4 more", largest samples first. */
+function clusterMemberSummary(cities: SurveyCity[], shown = 3): string {
+  const names = [...cities]
+    .sort((a, b) => b.responseCount - a.responseCount)
+    .slice(0, shown)
+    .map((c) => c.city);
+  const more = cities.length - names.length;
+  return more > 0 ? `${names.join(', ')} +${more} more` : names.join(', ');
 }
 
 @Component({
   selector: 'app-map',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    TimelineComponent,
+    DataSourceComponent,
+    LegendComponent,
+    ColorSettingsComponent,
+    ComparePanelComponent,
+    SwipeDividerComponent,
+    SegmentFilterComponent,
+    FilterChipsComponent,
+    DataTableComponent,
+    ExportMenuComponent,
+    AlertsPanelComponent,
+    RegionSearchComponent,
+    RegionDetailComponent
+  ],
+  // Each map keeps its own theme, so two widgets on a page can be styled independently.
+  providers: [ColorThemeService],
   templateUrl: './map.component.html',
   styleUrl: './map.component.css'
 })
 export class MapComponent implements AfterViewInit, OnDestroy {
   private readonly mapDataService = inject(MapDataService);
   private readonly geoService = inject(GeoService);
+  private readonly geocoding = inject(GeocodingService);
+  private readonly mapProviders = inject(MAP_PROVIDERS);
+  private readonly defaultBaseLayer = defaultBasemapKey(this.mapProviders);
+  private readonly colorTheme = inject(ColorThemeService);
+  private readonly metrics = inject(MetricRegistry);
+  private readonly rollups = inject(RegionRollupService);
+  private readonly alertRules = inject(AlertRulesService);
   private readonly destroyRef = inject(DestroyRef);
   private readonly cdr = inject(ChangeDetectorRef);
+  // Absent when embedded as a web component; the view then lives only in the widget.
+  private readonly router = inject(Router, { optional: true });
+  private readonly route = inject(ActivatedRoute, { optional: true });
+  private readonly mapElement = viewChild.required<ElementRef<HTMLElement>>('mapElement');
+
+  /** Survey rows to show; when not bound, the map loads them from `MapDataService`. */
+  readonly data = input<SurveyCity[] | undefined>(undefined);
+  readonly metric = input<MetricKey | undefined>(undefined);
+  readonly displayType = input<DisplayType | undefined>(undefined);
+  /** Initial drill path: `[]` (world), `[country]` or `[country, state]`. */
+  readonly drillPath = input<string[] | undefined>(undefined);
+  /** Color theme overrides for this map, merged over the provided `COLOR_THEME`. */
+  readonly theme = input<ColorThemeOverrides | undefined>(undefined);
+  /** Keep the drill path and view in the URL. Needs a router; turn off for several maps per page. */
+  readonly urlSync = input(true);
+
+  readonly countrySelected = output<string>();
+  readonly stateSelected = output<{ country: string; state: string }>();
+  /** The item under the pointer (a cluster as its aggregate), or null when it leaves. */
+  readonly markerHover = output<SurveyAggregate | SurveyCity | null>();
+  readonly viewportChanged = output<MapViewport>();
+
+  /** Prefix for element ids, unique per map instance. */
+  readonly uid = uniqueId('survey-map');
+  private dataSub: Subscription | null = null;
+  private searchSub: Subscription | null = null;
+  private streamSub: Subscription | null = null;
+  /** The next rollup comes from streamed rows: only the markers it changed are redrawn. */
+  private streamedUpdate = false;
+  private alertLayers: L.Layer[] = [];
+  private keyboardNav: RegionKeyboardNav | null = null;
+  /** First drawn layer and item of each region, in drawing order, for keyboard navigation. */
+  private focusTargets = new Map<string, { layer: L.Layer; item: SurveyAggregate | SurveyCity }>();
+  /** Announce the view summary with the next focused region (after a drill). */
+  private announceView = false;
+  /** Region picked in the search box; its tooltip opens once its drill level applies. */
+  private pendingSearch: { country: string; state: string | null; item: SurveyAggregate | SurveyCity } | null =
+    null;
+  private searchTooltip: L.Tooltip | null = null;
 
   private map: L.Map | null = null;
   private markerLayers: L.Layer[] = [];
-  private geoJsonLayer: L.GeoJSON | null = null;
-  private baseLayers: Record<string, L.TileLayer> = {};
+  /** Item drawn by `addMarker` under each key (also when hidden), for in-place updates. */
+  private markerItems = new Map<string, SurveyAggregate | SurveyCity>();
+  private geoJsonLayers: L.GeoJSON[] = [];
+  /** Pending boundary fetches for the current choropleths; cancelled on redraw. */
+  private choroplethSubs = new Subscription();
+  /** Base map layers by provider key, created when first shown. */
+  private baseLayers: Record<string, L.Layer> = {};
+  /** Canvas renderer per pane for circle markers; much cheaper than one SVG node per marker. */
+  private canvasRenderers = new Map<string, L.Canvas>();
+  /** Comparison pair of each drawn item, for delta colors and tooltips. */
+  private comparedByItem = new Map<SurveyAggregate | SurveyCity, ComparedItem>();
+  /** City clusters per zoom level for the current city-level data; cleared on redraw. */
+  private clusterCache = new Map<number, MarkerCluster<SurveyCity>[]>();
+  /** Drill path changed without a viewport in the URL; fit to the data once it is available. */
+  private pendingFit = false;
+  /**
+   * Drawn layers per `itemKey`, and per `placeKey` for city rows (alerts compare whole cities);
+   * a cluster is registered under each of its cities.
+   */
+  private layersByKey = new Map<string, L.Layer[]>();
+  /** Row hovered in the table, and the layers restyled for it with their original style. */
+  private highlightedKey: string | null = null;
+  private highlighted: { layer: L.Layer; style?: L.PathOptions }[] = [];
+  /** Zoom the hexagons were binned at; they are rebinned when it changes. */
+  private hexbinZoom: number | null = null;
 
-  readonly selectedMetric = signal<SurveyMetric>('nps');
+  readonly selectedMetric = signal<MetricKey>(this.metrics.defaultKey);
   readonly surveyData = signal<SurveyCity[]>([]);
   readonly loading = signal(true);
   readonly error = signal<string | null>(null);
 
   /** Display type: circle markers or time labels. */
-  readonly displayType = signal<DisplayType>('circle');
+  readonly selectedDisplayType = signal<DisplayType>('circle');
   /** Drill level and selection for hierarchy. */
   readonly drillLevel = signal<DrillLevel>('country');
   readonly selectedCountry = signal<string | null>(null);
   readonly selectedState = signal<string | null>(null);
 
+  /** Survey date window applied before any aggregation. */
+  readonly dateRange = signal<DateRange>({ start: null, end: null });
+
+  /** Markers with fewer responses than this get `lowSampleTreatment`; 0 disables the check. */
+  readonly minSample = signal(DEFAULT_MIN_SAMPLE);
+  readonly lowSampleTreatment = signal<LowSampleTreatment>('fade');
+
+  /** Segment dimension filter (product, channel, tier…), applied before aggregation. */
+  readonly segmentFilter = signal<SegmentFilter>({});
+  readonly hasSegmentFilter = computed(() => hasSegmentFilter(this.segmentFilter()));
+
+  /** Two-subset comparison: mode, the compared sides and the swipe divider position (0–1). */
+  readonly compareMode = signal<CompareMode>('off');
+  readonly comparisonSides = signal<ComparisonSides | null>(null);
+  readonly swipePosition = signal(0.5);
+
+  /** Data table panel, and the row last hovered or clicked on the map. */
+  readonly tableOpen = signal(false);
+  readonly selectedRowKey = signal<string | null>(null);
+
+  /** An image export is being rendered; the last export's failure, if any. */
+  readonly exportBusy = signal(false);
+  readonly exportError = signal<string | null>(null);
+
   /** Terrain / base map selection. */
-  readonly baseLayerKey = signal<string>('standard');
+  readonly baseLayerKey = signal(this.defaultBaseLayer);
 
-  readonly metricOptions: { value: SurveyMetric; label: string }[] = [
-    { value: 'nps', label: METRIC_LABELS.nps },
-    { value: 'csat', label: METRIC_LABELS.csat },
-    { value: 'ces', label: METRIC_LABELS.ces }
-  ];
+  readonly metricOptions = this.metrics.options;
 
   readonly displayTypeOptions: { value: DisplayType; label: string }[] = [
     { value: 'circle', label: 'Circle' },
     { value: 'time', label: 'Time' },
-    { value: 'area', label: 'Area' }
+    { value: 'area', label: 'Area' },
+    { value: 'heatmap', label: 'Heatmap' },
+    { value: 'hexbin', label: 'Hexbin' }
   ];
 
-  readonly baseLayerOptions: { value: string; label: string }[] = [
-    { value: 'standard', label: 'Standard' },
-    { value: 'satellite', label: 'Satellite' },
-    { value: 'terrain', label: 'Terrain' }
+  /** Heatmap intensity: response volume or detractor share. */
+  readonly heatWeight = signal<HeatWeight>('responses');
+  readonly heatWeightOptions: { value: HeatWeight; label: string }[] = [
+    { value: 'responses', label: 'Responses' },
+    { value: 'detractors', label: 'Detractor share' }
   ];
+  /** Largest change between compared hexagons; scales their delta colors and legend. */
+  private readonly hexbinDeltaSpan = signal(0);
+
+  readonly baseLayerOptions: { value: string; label: string }[] = this.mapProviders.basemaps.map((b) => ({
+    value: b.key,
+    label: b.label
+  }));
+
+  /** Survey rows matching the segment filter. */
+  readonly segmentData = computed(() => filterBySegments(this.surveyData(), this.segmentFilter()));
+
+  /** Survey rows matching the segment filter and inside the selected date window. */
+  readonly filteredData = computed(() => filterByDateRange(this.segmentData(), this.dateRange()));
 
   /** Unique countries for drill-down. */
   readonly countries = computed(() => {
-    const data = this.surveyData();
+    const data = this.filteredData();
     return [...new Set(data.map((c) => c.country))].sort();
   });
 
@@ -234,13 +522,13 @@ export class MapComponent implements AfterViewInit, OnDestroy {
   readonly states = computed(() => {
     const country = this.selectedCountry();
     if (!country) return [];
-    const data = this.surveyData();
+    const data = this.filteredData();
     return [...new Set(data.filter((c) => c.country === country).map((c) => c.state || c.country))].sort();
   });
 
   /** Cities in selected country/state (for city-level view). */
   readonly citiesInSelection = computed(() => {
-    const data = this.surveyData();
+    const data = this.filteredData();
     const country = this.selectedCountry();
     const state = this.selectedState();
     if (!country) return data;
@@ -249,37 +537,207 @@ export class MapComponent implements AfterViewInit, OnDestroy {
     return list;
   });
 
-  /** Current data to show on map (aggregated or city list). */
+  /** The last rollup of `filteredData` to arrive, with the rows it was computed from. */
+  private readonly latestRollup = signal<{ rows: SurveyCity[]; rollup: RegionRollup } | null>(null);
+
+  /** Rollup of the rows now selected; null while it is being computed. */
+  readonly rollup = computed(() => {
+    const latest = this.latestRollup();
+    return latest && latest.rows === this.filteredData() ? latest.rollup : null;
+  });
+
+  /** Rows are selected but not yet rolled up (large datasets are rolled up in a worker). */
+  readonly aggregating = computed(() => !this.loading() && this.filteredData().length > 0 && !this.rollup());
+
+  /** Current data to show on map (aggregated or city list); empty while aggregating. */
   readonly currentMapData = computed(() => {
-    const data = this.surveyData();
+    const rollup = this.rollup();
+    if (!rollup) return [];
+    return dataForLevel(this.filteredData(), rollup, this.drillLevel(), this.selectedCountry(), this.selectedState());
+  });
+
+  readonly alertsOpen = signal(false);
+  /** Detail panel for the country or state being viewed; reopens on every drill. */
+  readonly detailOpen = signal(true);
+
+  /** The country (state level) or state (city level) being viewed, as an aggregate. */
+  readonly detailRegion = computed((): SurveyAggregate | null => {
     const level = this.drillLevel();
     const country = this.selectedCountry();
+    const rollup = this.rollup();
+    if (level === 'country' || !country || !rollup) return null;
+    if (level === 'state') return rollup.countries.find((a) => a.name === country) ?? null;
     const state = this.selectedState();
-    if (level === 'country') return aggregateByCountry(data);
-    if (level === 'state' && country) return aggregateByState(data, country);
-    if (level === 'city') {
-      if (!country) return data;
-      let list = data.filter((c) => c.country === country);
-      if (state != null && state !== '') list = list.filter((c) => (c.state || c.country) === state);
-      return list;
-    }
-    return [];
+    return rollup.states.get(country)?.find((a) => a.name === state) ?? null;
+  });
+
+  /** Rows of the viewed region over all dates (segment filter applied), for its trend. */
+  readonly detailRows = computed(() => {
+    const region = this.detailRegion();
+    if (!region) return [];
+    const country = this.selectedCountry();
+    const state = this.drillLevel() === 'city' ? this.selectedState() : null;
+    return this.segmentData().filter(
+      (c) => c.country === country && (state === null || (c.state || c.country) === state)
+    );
   });
+  /** Text for the ARIA live region: the focused region, or the view after a drill. */
+  readonly announcement = signal('');
 
-  get currentMetric(): SurveyMetric {
+  /** Text alternative for the map: what is shown, the extremes and any caveats. */
+  readonly viewSummary = computed(() => {
+    const items = this.currentMapData();
+    const metric = this.selectedMetric();
+    const level = this.drillLevel();
+    const noun = level === 'country' ? 'countries' : level === 'state' ? 'states' : 'cities';
+    const place =
+      level === 'country'
+        ? 'the world'
+        : level === 'state'
+          ? this.selectedCountry()
+          : `${this.selectedState()}, ${this.selectedCountry()}`;
+    if (items.length === 0) return `No survey data for ${place}.`;
+    const parts = [`${this.metrics.label(metric)} for ${items.length} ${noun} in ${place}.`];
+    const scored = items
+      .map((item) => ({ item, value: this.metrics.value(item, metric) }))
+      .filter((s): s is { item: SurveyAggregate | SurveyCity; value: number } => s.value !== undefined)
+      .sort((a, b) => b.value - a.value);
+    if (scored.length > 1) {
+      const best = scored[0];
+      const worst = scored[scored.length - 1];
+      parts.push(
+        `Highest: ${itemLabel(best.item)} at ${this.metrics.format(best.value, metric)}.`,
+        `Lowest: ${itemLabel(worst.item)} at ${this.metrics.format(worst.value, metric)}.`
+      );
+    }
+    const responses = items.reduce((sum, i) => sum + i.responseCount, 0);
+    parts.push(`${responses} responses.`);
+    const minSample = this.minSample();
+    const lowSample = items.filter((i) => i.responseCount < minSample).length;
+    if (lowSample > 0) parts.push(`${lowSample} below the minimum sample of ${minSample}.`);
+    const alerts = this.alerts().length;
+    if (alerts > 0) parts.push(`${alerts} ${alerts === 1 ? 'alert' : 'alerts'}.`);
+    return parts.join(' ');
+  });
+
+  /**
+   * Regions at every level that break an alert rule. Threshold rules see the same rows and
+   * aggregation as the map; drop/rise rules compare the alert window with the one before it.
+   */
+  readonly alerts = computed((): AlertBreach[] => {
+    const rules = this.alertRules.rules();
+    const rollup = this.rollup();
+    if (rules.length === 0 || !rollup) return [];
+    const items = levelItems(this.filteredData(), rollup);
+    let change: { current: LevelItems; previous: LevelItems } | null = null;
+    const windows = this.alertWindowRows();
+    const current = windows && this.subsetRollup(windows.current);
+    const previous = windows && this.subsetRollup(windows.previous);
+    // Drop/rise rules wait until both windows are rolled up.
+    if (windows && current && previous) {
+      change = {
+        current: levelItems(windows.current.rows, current),
+        previous: levelItems(windows.previous.rows, previous)
+      };
+    }
+    return evaluateAlertRules(rules, items, change, this.metrics.valueOf);
+  });
+
+  /** Rows of the current and previous alert windows; null unless a drop/rise rule is set. */
+  private readonly alertWindowRows = computed(() => {
+    if (!this.alertRules.rules().some((r) => isChangeCondition(r.condition))) return null;
+    const data = this.segmentData();
+    const windows = alertWindows(this.dateRange(), data);
+    if (!windows) return null;
+    const subset = (range: DateRange): RowSubset => ({
+      key: rollupKey(this.segmentFilter(), range),
+      rows: filterByDateRange(data, range)
+    });
+    return { current: subset(windows.current), previous: subset(windows.previous) };
+  });
+
+  /**
+   * Rows of each compared side: its own period (and optionally segment), with the segment
+   * filter but not the timeline window applied. Null when comparison is off.
+   */
+  private readonly comparisonRows = computed((): { a: RowSubset; b: RowSubset } | null => {
+    const sides = this.comparisonSides();
+    if (this.compareMode() === 'off' || !sides) return null;
+    const data = this.segmentData();
+    const subset = (side: ComparisonSide): RowSubset => ({
+      key: rollupKey(this.segmentFilter(), side.range, side.segments),
+      rows: filterBySegments(filterByDateRange(data, side.range), side.segments)
+    });
+    return { a: subset(sides.a), b: subset(sides.b) };
+  });
+
+  /** Alert windows and compared sides whose rollups are needed. */
+  private readonly rowSubsets = computed((): RowSubset[] => {
+    const windows = this.alertWindowRows();
+    const sides = this.comparisonRows();
+    const subsets = windows ? [windows.current, windows.previous] : [];
+    return sides ? [...subsets, sides.a, sides.b] : subsets;
+  });
+
+  /** Bumped when the worker has rolled up one of `rowSubsets`. */
+  private readonly subsetRolledUp = signal(0);
+
+  /**
+   * Per-region (or per-city) pairs of the two compared subsets at the current drill level;
+   * null when comparison is off or a side is still being rolled up.
+   */
+  readonly comparison = computed((): ComparedItem[] | null => {
+    const sides = this.comparisonRows();
+    const a = sides && this.subsetRollup(sides.a);
+    const b = sides && this.subsetRollup(sides.b);
+    if (!sides || !a || !b) return null;
+    const level = this.drillLevel();
+    const country = this.selectedCountry();
+    const state = this.selectedState();
+    const subset = (rows: SurveyCity[], rollup: RegionRollup) => {
+      // Each city is paired as a whole, whatever dates and segments each side has for it.
+      if (level === 'city') return aggregateCities(rollupCities(rollup, rows, country, state || null));
+      return dataForLevel(rows, rollup, level, country, state);
+    };
+    return pairComparison(subset(sides.a.rows, a), subset(sides.b.rows, b));
+  });
+
+  /** City rows of each compared side inside the drill selection, for the density displays. */
+  readonly comparisonCities = computed((): { a: SurveyCity[]; b: SurveyCity[] } | null => {
+    const sides = this.comparisonRows();
+    const a = sides && this.subsetRollup(sides.a);
+    const b = sides && this.subsetRollup(sides.b);
+    if (!sides || !a || !b) return null;
+    const country = this.selectedCountry();
+    const state = this.selectedState() || null;
+    return {
+      a: rollupCities(a, sides.a.rows, country, state),
+      b: rollupCities(b, sides.b.rows, country, state)
+    };
+  });
+
+  /** Largest change in the selected metric; scales the diverging delta colors. */
+  readonly comparisonSpan = computed(() => {
+    const comparison = this.comparison();
+    return comparison ? maxAbsDelta(comparison, this.selectedMetric(), this.metrics.valueOf) : 0;
+  });
+
+  get currentMetric(): MetricKey {
     return this.selectedMetric();
   }
-  set currentMetric(value: SurveyMetric) {
+  set currentMetric(value: MetricKey) {
     this.selectedMetric.set(value);
     this.updateMarkers();
+    this.syncUrl();
   }
 
   get currentDisplayType(): DisplayType {
-    return this.displayType();
+    return this.selectedDisplayType();
   }
   set currentDisplayType(value: DisplayType) {
-    this.displayType.set(value);
+    this.selectedDisplayType.set(value);
     this.updateMarkers();
+    this.syncUrl();
   }
 
   get currentBaseLayer(): string {
@@ -288,67 +746,219 @@ export class MapComponent implements AfterViewInit, OnDestroy {
   set currentBaseLayer(value: string) {
     this.baseLayerKey.set(value);
     this.switchBaseLayer(value);
+    this.syncUrl();
   }
 
-  /** Legend info for current metric (industry-standard color scale). */
-  readonly legendRanges = computed(() => {
+  readonly metricLabel = computed(() => this.metrics.label(this.selectedMetric()));
+
+  /** Legend for the current metric, from the active color theme. */
+  readonly legend = computed(() => {
+    const displayType = this.selectedDisplayType();
+    if (displayType === 'heatmap') return this.colorTheme.heatLegend();
+    if (this.compareMode() === 'difference' && this.comparison()) {
+      const span = displayType === 'hexbin' ? this.hexbinDeltaSpan() : this.comparisonSpan();
+      return this.colorTheme.deltaLegendFor(this.selectedMetric(), span);
+    }
+    return this.colorTheme.legendFor(this.selectedMetric());
+  });
+
+  /**
+   * For the legend: whether any region in view has no value (or no change) to color it by, and
+   * the share of the responses in view that report the metric when some do not.
+   */
+  readonly legendCoverage = computed((): { noData: boolean; note: string | null } => {
+    if (this.selectedDisplayType() === 'heatmap') return { noData: false, note: null };
     const metric = this.selectedMetric();
-    if (metric === 'nps') return [{ label: '50+', color: '#22c55e' }, { label: '0–49', color: '#eab308' }, { label: '<0', color: '#ef4444' }];
-    if (metric === 'csat') return [{ label: '80+', color: '#22c55e' }, { label: '60–79', color: '#eab308' }, { label: '<60', color: '#ef4444' }];
-    return [{ label: '1–2.9', color: '#22c55e' }, { label: '3–5', color: '#eab308' }, { label: '>5', color: '#ef4444' }];
+    const items = this.currentMapData();
+    const comparison = this.compareMode() === 'difference' ? this.comparison() : null;
+    const noData = comparison
+      ? comparison.some((pair) => metricDelta(pair, metric, this.metrics.valueOf) === undefined)
+      : items.some((item) => this.metrics.value(item, metric) === undefined);
+    let reported = 0;
+    let total = 0;
+    for (const item of items) {
+      const n = this.metrics.coverage(item, metric);
+      if (n === undefined) continue;
+      reported += Math.min(n, item.responseCount);
+      total += item.responseCount;
+    }
+    const note =
+      total > 0 && reported < total
+        ? `${this.metricLabel()} reported by ${Math.round((reported / total) * 100)}% of responses in view`
+        : null;
+    return { noData, note };
   });
 
+  readonly legendTitle = computed(() => {
+    const displayType = this.selectedDisplayType();
+    if (displayType === 'heatmap') {
+      return this.heatWeight() === 'responses' ? 'Response density' : 'Detractor share density';
+    }
+    const title =
+      this.compareMode() === 'difference' && this.comparisonSides()
+        ? `${this.metricLabel()} change, ${this.comparisonSides()!.a.label} → ${this.comparisonSides()!.b.label}`
+        : this.metricLabel();
+    return displayType === 'hexbin' ? `${title} per hexagon (response-weighted)` : title;
+  });
+
+  constructor() {
+    // Inputs set the view; the widget's own controls can still change it afterwards.
+    effect(() => {
+      const data = this.data();
+      if (data) untracked(() => this.useData(data));
+    });
+    // A failed load leaves the data service listening for the next source; show why meanwhile.
+    effect(() => {
+      const loadError = this.mapDataService.loadError();
+      untracked(() => {
+        if (!this.dataSub) return;
+        if (loadError) this.loading.set(false);
+        this.error.set(loadError);
+      });
+    });
+    effect(() => {
+      const metric = this.metric();
+      if (metric) untracked(() => (this.currentMetric = metric));
+    });
+    effect(() => {
+      const displayType = this.displayType();
+      if (displayType) untracked(() => (this.currentDisplayType = displayType));
+    });
+    effect(() => {
+      const path = this.drillPath();
+      if (path) untracked(() => this.navigateToDrill(path[0] || null, (path[0] && path[1]) || null));
+    });
+    effect(() => {
+      const theme = this.theme();
+      if (theme) {
+        untracked(() => {
+          this.colorTheme.configure(theme);
+          this.updateMarkers();
+        });
+      }
+    });
+    // Roll up each new selection once; metric and display changes reuse the rollup.
+    toObservable(this.filteredData)
+      .pipe(
+        switchMap((rows) =>
+          this.rollups
+            .rollup(this.surveyData(), rollupKey(this.segmentFilter(), this.dateRange()), rows)
+            .pipe(map((rollup) => ({ rows, rollup })))
+        ),
+        takeUntilDestroyed()
+      )
+      .subscribe(({ rows, rollup }) => this.applyRollup(rows, rollup));
+    // Alert windows and compared sides too large for the main thread go to the worker too.
+    toObservable(this.rowSubsets)
+      .pipe(
+        switchMap((subsets) => {
+          const source = this.surveyData();
+          const pending = subsets.filter((s) => !this.rollups.rollupIfReady(source, s.key, s.rows));
+          return merge(...pending.map((s) => this.rollups.rollup(source, s.key, s.rows)));
+        }),
+        takeUntilDestroyed()
+      )
+      .subscribe(() => {
+        this.subsetRolledUp.update((n) => n + 1);
+        if (this.comparisonRows()) this.updateMarkers();
+      });
+  }
+
   ngAfterViewInit(): void {
     this.initMap();
-    this.loadData();
+    if (this.urlSyncActive()) this.watchUrl();
+    if (this.data() === undefined) this.loadData();
+    // Inputs may have arrived before the map existed.
+    this.updateMarkers();
+    this.flushPendingFit();
   }
 
   private initMap(): void {
-    const container = document.getElementById('survey-map');
-    if (!container) return;
-
-    this.map = L.map(container, {
+    this.map = L.map(this.mapElement().nativeElement, {
       center: [20, 0],
       zoom: 2,
       zoomControl: true
     });
-
-    const standard = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
-    });
-    const satellite = L.tileLayer('https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', {
-      attribution: 'Tiles &copy; Esri'
+    for (const pane of [PANE_A, PANE_B]) this.map.createPane(pane).style.zIndex = '450';
+    this.map.on('move', () => this.updateSwipeClip());
+    this.map.on('click', () => this.closeSearchTooltip());
+    this.map.on('tooltipopen', (e) => {
+      if (e.tooltip !== this.searchTooltip) this.closeSearchTooltip();
     });
-    const terrain = L.tileLayer('https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png', {
-      attribution: 'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, SRTM | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a>'
+    // Clusters depend on zoom and only those in view are drawn.
+    this.map.on('moveend', () => {
+      this.refreshCityClusters();
+      this.refreshHexbins();
+      this.syncUrl();
+      const viewport = this.currentViewport();
+      if (viewport) this.viewportChanged.emit(viewport);
     });
 
-    this.baseLayers['standard'] = standard;
-    this.baseLayers['satellite'] = satellite;
-    this.baseLayers['terrain'] = terrain;
-    standard.addTo(this.map);
+    this.map.createPane(BASEMAP_PANE).style.zIndex = '250';
+    this.keyboardNav = new RegionKeyboardNav(this.map, {
+      focus: (target, index, count) => this.onRegionFocus(target, index, count),
+      blur: (target) => this.onRegionBlur(target),
+      activate: (target) => target.layer.fire('click'),
+      escape: () => this.drillUp()
+    });
+    this.switchBaseLayer(this.baseLayerKey());
   }
 
   private switchBaseLayer(key: string): void {
     if (!this.map) return;
-    const layer = this.baseLayers[key];
-    if (!layer) return;
+    const provider = this.mapProviders.basemaps.find((b) => b.key === key);
+    if (!provider) return;
+    const layer = (this.baseLayers[key] ??= this.createBaseLayer(provider));
     Object.values(this.baseLayers).forEach((l) => this.map!.removeLayer(l));
     layer.addTo(this.map);
+    // Outline mode has no tiles; the container background is the sea.
+    this.map.getContainer().style.background = provider.kind === 'outline' ? (provider.water ?? '#dbeafe') : '';
+  }
+
+  private createBaseLayer(provider: BasemapProvider): L.Layer {
+    if (provider.kind === 'tiles') {
+      // CORS tiles keep the canvas untainted so image exports can include them.
+      return L.tileLayer(provider.url, {
+        crossOrigin: provider.crossOrigin ?? true,
+        attribution: provider.attribution,
+        ...(provider.subdomains ? { subdomains: provider.subdomains } : {}),
+        ...(provider.maxNativeZoom !== undefined ? { maxNativeZoom: provider.maxNativeZoom } : {}),
+        tms: provider.tms ?? false
+      });
+    }
+    const outline = L.geoJSON(undefined, {
+      pane: BASEMAP_PANE,
+      interactive: false,
+      style: {
+        color: provider.border ?? '#9ca3af',
+        weight: 0.75,
+        fillColor: provider.land ?? '#f9fafb',
+        fillOpacity: 1
+      }
+    });
+    this.geoService
+      .getCountriesGeoJson()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((geojson) => outline.addData(geojson));
+    return outline;
   }
 
   private loadData(): void {
     this.loading.set(true);
     this.error.set(null);
-    this.mapDataService
+    this.dataSub = this.mapDataService
       .getSurveyData()
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (data) => {
           this.surveyData.set(data);
           this.loading.set(false);
-          this.updateMarkers();
+          this.error.set(null);
           this.cdr.markForCheck();
+          this.streamSub ??= this.mapDataService
+            .getSurveyUpdates()
+            .pipe(takeUntilDestroyed(this.destroyRef))
+            .subscribe((rows) => this.applyStreamedRows(rows));
         },
         error: (err) => {
           this.loading.set(false);
@@ -358,32 +968,575 @@ export class MapComponent implements AfterViewInit, OnDestroy {
       });
   }
 
+  /** Show rows bound through the `data` input instead of loading them. */
+  private useData(data: SurveyCity[]): void {
+    this.dataSub?.unsubscribe();
+    this.dataSub = null;
+    this.streamSub?.unsubscribe();
+    this.streamSub = null;
+    this.surveyData.set(data);
+    this.loading.set(false);
+    this.error.set(null);
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Merge streamed rows. Once they are rolled up, markers of the regions they touched are
+   * swapped without a full redraw.
+   */
+  private applyStreamedRows(rows: SurveyCity[]): void {
+    this.streamedUpdate = true;
+    this.surveyData.update((data) => mergeSurveyRows(data, rows));
+  }
+
+  /** Show a finished rollup of `rows`, keeping the aggregates of regions that did not change. */
+  private applyRollup(rows: SurveyCity[], rollup: RegionRollup): void {
+    this.latestRollup.update((latest) => ({ rows, rollup: reuseUnchanged(latest?.rollup ?? null, rollup) }));
+    if (this.streamedUpdate && this.canUpdateInPlace()) this.updateMarkersInPlace();
+    else this.updateMarkers();
+    this.streamedUpdate = false;
+    this.flushPendingFit();
+    this.cdr.markForCheck();
+  }
+
+  /** Rollup of an alert window or compared side; null while the worker is on it. */
+  private subsetRollup({ key, rows }: RowSubset): RegionRollup | null {
+    this.subsetRolledUp();
+    return this.rollups.rollupIfReady(this.surveyData(), key, rows);
+  }
+
+  private urlSyncActive(): boolean {
+    return this.urlSync() && !!this.router && !!this.route;
+  }
+
+  /**
+   * Restore the view whenever the route changes: on load from a shared link and on
+   * back/forward. The drill path is a path segment, so each drill step is a history entry.
+   */
+  private watchUrl(): void {
+    const route = this.route!;
+    merge(route.paramMap, route.queryParamMap)
+      .pipe(
+        map(() => parseMapUrlState(route.snapshot.paramMap, route.snapshot.queryParamMap, {
+          keys: this.mapProviders.basemaps.map((b) => b.key),
+          fallback: this.defaultBaseLayer
+        }, { keys: this.metrics.keys, fallback: this.metrics.defaultKey })),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe((state) => this.applyUrlState(state));
+  }
+
+  private applyUrlState(state: MapUrlState): void {
+    const drillChanged =
+      state.drillLevel !== this.drillLevel() ||
+      state.country !== this.selectedCountry() ||
+      state.state !== this.selectedState();
+    const styleChanged = state.metric !== this.selectedMetric() || state.displayType !== this.selectedDisplayType();
+    if (drillChanged) {
+      this.selectedRowKey.set(null);
+      this.detailOpen.set(true);
+    }
+    this.drillLevel.set(state.drillLevel);
+    this.selectedCountry.set(state.country);
+    this.selectedState.set(state.state);
+    this.selectedMetric.set(state.metric);
+    this.selectedDisplayType.set(state.displayType);
+    if (state.baseLayer !== this.baseLayerKey()) {
+      this.baseLayerKey.set(state.baseLayer);
+      this.switchBaseLayer(state.baseLayer);
+    }
+    if (drillChanged || styleChanged) this.updateMarkers();
+    if (state.view) {
+      this.pendingFit = false;
+      if (this.map && !sameViewport(state.view, this.currentViewport())) {
+        this.map.setView([state.view.lat, state.view.lng], state.view.zoom);
+      }
+    } else if (drillChanged) {
+      this.pendingFit = true;
+      this.flushPendingFit();
+    }
+    if (drillChanged) this.closeSearchTooltip();
+    this.openPendingSearch();
+    this.cdr.markForCheck();
+  }
+
+  private currentUrlState(): MapUrlState {
+    return {
+      drillLevel: this.drillLevel(),
+      country: this.selectedCountry(),
+      state: this.selectedState(),
+      metric: this.selectedMetric(),
+      displayType: this.selectedDisplayType(),
+      baseLayer: this.baseLayerKey(),
+      view: this.currentViewport()
+    };
+  }
+
+  private currentViewport(): MapViewport | null {
+    if (!this.map) return null;
+    const center = this.map.getCenter();
+    return { lat: center.lat, lng: center.lng, zoom: this.map.getZoom() };
+  }
+
+  /** Values left out of the query string. */
+  private urlDefaults(): { baseLayer: string; metric: MetricKey } {
+    return { baseLayer: this.defaultBaseLayer, metric: this.metrics.defaultKey };
+  }
+
+  /** Write metric, display, base layer and viewport to the current history entry. */
+  private syncUrl(): void {
+    // Before the map exists there is no view to write, and the URL has not been applied yet.
+    if (!this.urlSyncActive() || !this.map) return;
+    const state = this.currentUrlState();
+    this.router!.navigate(mapUrlCommands(state), { queryParams: mapUrlQueryParams(state, this.urlDefaults()), replaceUrl: true });
+  }
+
+  /**
+   * Drill to a new level as a new history entry; the map fits to it once the route applies.
+   * Without URL sync the level is applied directly.
+   */
+  private navigateToDrill(country: string | null, state: string | null, view: MapViewport | null = null): void {
+    const next: MapUrlState = {
+      ...this.currentUrlState(),
+      drillLevel: drillLevelOf(country, state),
+      country,
+      state,
+      view
+    };
+    if (this.urlSyncActive()) {
+      this.router!.navigate(mapUrlCommands(next), { queryParams: mapUrlQueryParams(next, this.urlDefaults()) });
+    } else {
+      this.applyUrlState(next);
+    }
+  }
+
+  private flushPendingFit(): void {
+    if (!this.map || !this.pendingFit || this.currentMapData().length === 0) return;
+    this.pendingFit = false;
+    this.fitMapToData();
+  }
+
   setDrillLevel(level: DrillLevel, country?: string | null, state?: string | null): void {
-    this.drillLevel.set(level);
-    this.selectedCountry.set(country ?? null);
-    this.selectedState.set(state ?? null);
+    this.navigateToDrill(level === 'country' ? null : (country ?? null), level === 'city' ? (state ?? null) : null);
+  }
+
+  onCountrySelect(country: string): void {
+    this.countrySelected.emit(country);
+    this.navigateToDrill(country, null);
+  }
+
+  onStateSelect(state: string, country = this.selectedCountry(), view: MapViewport | null = null): void {
+    if (country) this.stateSelected.emit({ country, state });
+    this.navigateToDrill(country, state, view);
+  }
+
+  /**
+   * Region picked in the search box: drill into a country or state, or to a city's state
+   * centered on the city, then open the region's tooltip.
+   */
+  onRegionSearch(result: RegionSearchResult): void {
+    this.searchSub?.unsubscribe();
+    this.searchSub = this.searchResultItem(result)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((item) => {
+        if (item) this.openSearchResult(result, item);
+      });
+  }
+
+  /** Show the region behind a search result once it has been looked up. */
+  private openSearchResult(result: RegionSearchResult, item: SurveyAggregate | SurveyCity): void {
+    const state = result.kind === 'country' ? null : result.state;
+    const view =
+      result.kind === 'city' ? { lat: item.latitude, lng: item.longitude, zoom: CLUSTER_MAX_ZOOM } : null;
+    this.pendingSearch = { country: result.country, state, item };
+    if (result.country === this.selectedCountry() && state === this.selectedState()) {
+      // Same level: navigating to the same URL would be ignored.
+      if (view) this.map?.setView([view.lat, view.lng], Math.max(this.map.getZoom(), view.zoom));
+      else this.fitMapToData();
+      this.openPendingSearch();
+      return;
+    }
+    if (!state) {
+      this.onCountrySelect(result.country);
+      return;
+    }
+    // One navigation straight to the state, even when the country changes too.
+    if (result.country !== this.selectedCountry()) this.countrySelected.emit(result.country);
+    this.onStateSelect(state, result.country, view);
+  }
+
+  /**
+   * The country or state aggregate, or the city row, behind a search result. Searches cover
+   * all rows, so a region outside the current filters is looked up unfiltered.
+   */
+  private searchResultItem(result: RegionSearchResult): Observable<SearchItem> {
+    const all = this.surveyData();
+    const data = this.filteredData();
+    const find = (rows: SurveyCity[], filterKey: string): Observable<SearchItem> => {
+      if (result.kind === 'city') {
+        const { name, country, state } = result;
+        const city = rows.find((c) => c.city === name && c.country === country && (c.state || c.country) === state);
+        return of(city ?? null);
+      }
+      return this.rollups.rollup(all, filterKey, rows).pipe(
+        map((rollup) =>
+          result.kind === 'country'
+            ? (rollup.countries.find((a) => a.name === result.name) ?? null)
+            : (rollup.states.get(result.country)?.find((a) => a.name === result.name) ?? null)
+        )
+      );
+    };
+    return find(data, rollupKey(this.segmentFilter(), this.dateRange())).pipe(
+      switchMap((item) => (item || data === all ? of(item) : find(all, rollupKey())))
+    );
+  }
+
+  /**
+   * Open the searched region's tooltip once the map shows its level. It is anchored to the map
+   * rather than a marker so that it survives cluster redraws; a drill or any other tooltip
+   * closes it.
+   */
+  private openPendingSearch(): void {
+    const pending = this.pendingSearch;
+    if (!pending || !this.map) return;
+    if (pending.country !== this.selectedCountry() || pending.state !== this.selectedState()) return;
+    this.pendingSearch = null;
+    this.closeSearchTooltip();
+    const { item } = pending;
+    const metric = this.selectedMetric();
+    const value = this.metrics.value(item, metric);
+    const content = this.buildTooltipContent(item, metric, value, itemLabel(item), item.responseCount, item.surveyDate);
+    this.searchTooltip = L.tooltip({ direction: 'top', className: 'survey-marker-tooltip' })
+      .setLatLng([item.latitude, item.longitude])
+      .setContent(content);
+    this.map.openTooltip(this.searchTooltip);
+    this.selectedRowKey.set(itemKey(item));
+  }
+
+  private closeSearchTooltip(): void {
+    if (this.searchTooltip) this.map?.closeTooltip(this.searchTooltip);
+    this.searchTooltip = null;
+  }
+
+  /** Apply a new date window; aggregates are rebuilt from the filtered rows. */
+  onDateRangeChange(range: DateRange): void {
+    this.dateRange.set(range);
     this.updateMarkers();
-    this.fitMapToData();
     this.cdr.markForCheck();
   }
 
-  onCountrySelect(country: string): void {
-    this.selectedCountry.set(country);
-    this.selectedState.set(null);
-    this.drillLevel.set('state');
+  onSegmentFilterChange(filter: SegmentFilter): void {
+    this.segmentFilter.set(filter);
     this.updateMarkers();
-    this.fitMapToData();
     this.cdr.markForCheck();
   }
 
-  onStateSelect(state: string): void {
-    this.selectedState.set(state);
-    this.drillLevel.set('city');
+  onCompareModeChange(mode: CompareMode): void {
+    this.compareMode.set(mode);
     this.updateMarkers();
-    this.fitMapToData();
     this.cdr.markForCheck();
   }
 
+  onComparisonSidesChange(sides: ComparisonSides): void {
+    this.comparisonSides.set(sides);
+    this.updateMarkers();
+    this.cdr.markForCheck();
+  }
+
+  onSwipe(position: number): void {
+    this.swipePosition.set(position);
+    this.updateSwipeClip();
+  }
+
+  /** Thresholds or palette changed; restyle with the new colors. */
+  onColorThemeChange(): void {
+    this.updateMarkers();
+  }
+
+  onHeatWeightChange(weight: HeatWeight): void {
+    this.heatWeight.set(weight);
+    this.updateMarkers();
+  }
+
+  onMinSampleChange(minSample: number): void {
+    this.minSample.set(minSample);
+    this.updateMarkers();
+  }
+
+  onLowSampleTreatmentChange(treatment: LowSampleTreatment): void {
+    this.lowSampleTreatment.set(treatment);
+    this.updateMarkers();
+  }
+
+  /** Download the drawn rows or an image of the map, exactly as currently drilled and filtered. */
+  onExport(format: ExportFormat): void {
+    this.exportError.set(null);
+    const path = [this.selectedCountry(), this.selectedState()].filter((p): p is string => !!p);
+    const fileName = exportFileName(path, format);
+    if (format === 'csv' || format === 'geojson') {
+      const rows = exportRows(
+        this.currentMapData(),
+        (metric, value) => this.colorTheme.colorFor(metric, value),
+        this.metrics.keys,
+        this.metrics.valueOf
+      );
+      const blob =
+        format === 'csv'
+          ? new Blob([exportRowsToCsv(rows)], { type: 'text/csv;charset=utf-8' })
+          : new Blob([JSON.stringify(exportRowsToGeoJson(rows), null, 2)], {
+              type: 'application/geo+json'
+            });
+      downloadBlob(blob, fileName);
+      return;
+    }
+    const snapshot = this.snapshot();
+    if (!snapshot) return;
+    if (format === 'svg') {
+      downloadBlob(new Blob([snapshot.svg], { type: 'image/svg+xml' }), fileName);
+      return;
+    }
+    this.exportBusy.set(true);
+    from(snapshotToPng(snapshot))
+      .pipe(
+        finalize(() => this.exportBusy.set(false)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: (blob) => downloadBlob(blob, fileName),
+        error: (err) => this.exportError.set(err?.message ?? 'Export failed')
+      });
+  }
+
+  /** The map as drawn, with breadcrumb, filters and legend baked in; swipe sides stay clipped. */
+  private snapshot(): MapSnapshot | null {
+    const leafletMap = this.map;
+    if (!leafletMap) return null;
+    const width = leafletMap.getSize().x;
+    const split = width * this.swipePosition();
+    const swipe = this.compareMode() === 'swipe';
+    const panes: SnapshotPane[] = [];
+    for (const name of SNAPSHOT_PANES) {
+      const element = leafletMap.getPane(name);
+      if (!element) continue;
+      if (swipe && name === PANE_A) panes.push({ element, clipX: [0, split] });
+      else if (swipe && name === PANE_B) panes.push({ element, clipX: [split, width] });
+      else panes.push({ element });
+    }
+    const minSample = this.minSample();
+    const { noData, note } = this.legendCoverage();
+    const notes = [
+      noData ? 'Gray, dashed: no data' : null,
+      note,
+      minSample > 0 ? `n < ${minSample}: ${LOW_SAMPLE_LABELS[this.lowSampleTreatment()]}` : null
+    ].filter((n): n is string => !!n);
+    return mapSnapshotSvg(leafletMap.getContainer(), panes, {
+      heading: this.snapshotHeading(),
+      legendTitle: this.legendTitle(),
+      legend: this.legend(),
+      legendNote: notes.length > 0 ? notes.join(' · ') : undefined
+    });
+  }
+
+  /** "World › France › Île-de-France", then the active filters, dates and comparison. */
+  private snapshotHeading(): string[] {
+    const crumbs = ['World', this.selectedCountry(), this.selectedState()].filter(Boolean);
+    const lines = [`${crumbs.join(' › ')} — ${this.metricLabel()}`];
+    if (this.hasSegmentFilter()) lines.push(segmentFilterLabel(this.segmentFilter()));
+    const sides = this.comparisonSides();
+    if (this.compareMode() !== 'off' && sides) {
+      lines.push(`${sides.a.label} vs ${sides.b.label}`);
+    } else if (!isOpenRange(this.dateRange())) {
+      const { start, end } = this.dateRange();
+      lines.push(`${startToDateInput(start) || '…'} – ${endToDateInput(end) || '…'}`);
+    }
+    return lines;
+  }
+
+  /** Alert clicked: drill to the region; a city is centered at the state level. */
+  onAlertSelect(breach: AlertBreach): void {
+    const item = breach.item;
+    this.selectedRowKey.set(breach.key);
+    if (isAggregate(item) && item.level === 'country') {
+      this.countrySelected.emit(item.name);
+      this.navigateToDrill(item.name, null);
+    } else if (isAggregate(item) && item.level === 'state' && item.country) {
+      this.stateSelected.emit({ country: item.country, state: item.name });
+      this.navigateToDrill(item.country, item.name);
+    } else if (item.country) {
+      const view = { lat: item.latitude, lng: item.longitude, zoom: CLUSTER_MAX_ZOOM };
+      this.navigateToDrill(item.country, item.state || item.country, view);
+    }
+  }
+
+  /** Table row hovered: outline its marker or polygon; null clears the outline. */
+  onTableRowHover(key: string | null): void {
+    this.highlightedKey = key;
+    this.highlightLayers();
+  }
+
+  /** Table row clicked: drill into a country or state, or center on a city. */
+  onTableRowSelect(item: SurveyAggregate | SurveyCity): void {
+    if (isAggregate(item) && item.level === 'country') {
+      this.onCountrySelect(item.name);
+    } else if (isAggregate(item) && item.level === 'state') {
+      this.onStateSelect(item.name);
+    } else if (this.map) {
+      this.selectedRowKey.set(itemKey(item));
+      this.map.setView([item.latitude, item.longitude], Math.max(this.map.getZoom(), CLUSTER_MAX_ZOOM));
+    }
+  }
+
+  /**
+   * Index a drawn layer under the items it shows (a cluster shows all its cities) so table
+   * rows can find it. Hovering it selects the row and reports `shown` through `markerHover`.
+   */
+  private registerLayer(
+    layer: L.Layer,
+    shown: SurveyAggregate | SurveyCity,
+    items: (SurveyAggregate | SurveyCity)[] = [shown]
+  ): void {
+    for (const item of items) {
+      for (const key of new Set([itemKey(item), placeKey(item)])) {
+        const layers = this.layersByKey.get(key);
+        if (layers) layers.push(layer);
+        else this.layersByKey.set(key, [layer]);
+      }
+    }
+    const key = itemKey(items[0] ?? shown);
+    if (!this.focusTargets.has(key)) this.focusTargets.set(key, { layer, item: shown });
+    layer.on('mouseover', () => {
+      this.selectedRowKey.set(key);
+      this.markerHover.emit(shown);
+    });
+    layer.on('mouseout', () => this.markerHover.emit(null));
+    layer.on('click', () => this.selectedRowKey.set(key));
+  }
+
+  /** Refresh what depends on the drawn layers: highlight, alert rings, keyboard handles. */
+  private afterLayersDrawn(): void {
+    this.highlightLayers();
+    this.drawAlertRings();
+    this.updateFocusTargets();
+  }
+
+  /** One keyboard handle per drawn region, named by its label and described by its tooltip. */
+  private updateFocusTargets(): void {
+    if (!this.map || !this.keyboardNav) return;
+    const targets: FocusTarget[] = [];
+    for (const [key, { layer, item }] of this.focusTargets) {
+      const position = layerCenter(layer);
+      if (!position || !this.map.hasLayer(layer)) continue;
+      const tooltip = layer.getTooltip()?.getContent();
+      const drillable = isAggregate(item) && (item.level === 'country' || item.level === 'state');
+      const description = [
+        typeof tooltip === 'string' ? tooltipText(tooltip) : itemLabel(item),
+        drillable ? 'Press Enter to drill in.' : null
+      ]
+        .filter(Boolean)
+        .join(' ');
+      targets.push({ key, label: itemLabel(item), description, position, layer });
+    }
+    this.keyboardNav.setTargets(targets);
+  }
+
+  private onRegionFocus(target: FocusTarget, index: number, count: number): void {
+    this.highlightedKey = target.key;
+    this.highlightLayers();
+    if (this.map && !this.map.getBounds().contains(target.position)) this.map.panTo(target.position);
+    target.layer.openTooltip();
+    const position = `${index + 1} of ${count}.`;
+    const summary = this.announceView ? this.viewSummary() + ' ' : '';
+    this.announceView = false;
+    this.announcement.set(`${summary}${target.description} ${position}`);
+  }
+
+  private onRegionBlur(target: FocusTarget): void {
+    if (this.highlightedKey === target.key) this.highlightedKey = null;
+    this.highlightLayers();
+    target.layer.closeTooltip();
+  }
+
+  /** Escape on a region: up one drill level. False at the world level. */
+  private drillUp(): boolean {
+    const level = this.drillLevel();
+    if (level === 'country') return false;
+    this.announceView = true;
+    if (level === 'city') this.goBackFromCity();
+    else this.goBackFromState();
+    return true;
+  }
+
+  /** Ring the drawn layers of regions that break an alert rule, one ring per layer. */
+  drawAlertRings(): void {
+    for (const layer of this.alertLayers) this.map?.removeLayer(layer);
+    this.alertLayers = [];
+    if (!this.map) return;
+    const ringed = new Set<L.Layer>();
+    for (const breach of this.alerts()) {
+      for (const layer of this.layersByKey.get(breach.key) ?? []) {
+        if (ringed.has(layer) || !this.map.hasLayer(layer)) continue;
+        ringed.add(layer);
+        this.addAlertRing(layer);
+      }
+    }
+  }
+
+  private addAlertRing(layer: L.Layer): void {
+    const center = layerCenter(layer);
+    if (!center) return;
+    const isCircleMarker = layer instanceof L.CircleMarker && !(layer instanceof L.Circle);
+    const size = isCircleMarker ? Math.max(ALERT_RING_PX, layer.getRadius() * 2 + 14) : ALERT_RING_PX;
+    const ring = L.marker(center, {
+      icon: L.divIcon({
+        className: 'alert-ring',
+        html:
+          `<div style="width:${size}px;height:${size}px;box-sizing:border-box;` +
+          `border:3px solid ${ALERT_COLOR};border-radius:50%"></div>`,
+        iconSize: [size, size]
+      }),
+      interactive: false,
+      keyboard: false
+    });
+    ring.addTo(this.map!);
+    ring
+      .getElement()
+      ?.firstElementChild?.animate(
+        [
+          { transform: 'scale(0.85)', opacity: 1 },
+          { transform: 'scale(1.25)', opacity: 0.2 }
+        ],
+        { duration: 1200, iterations: Infinity, direction: 'alternate', easing: 'ease-in-out' }
+      );
+    this.alertLayers.push(ring);
+  }
+
+  /** Restore the previous outline and draw one around the layers of `highlightedKey`. */
+  private highlightLayers(): void {
+    for (const { layer, style } of this.highlighted) {
+      if (layer instanceof L.Path && style) layer.setStyle(style);
+      if (layer instanceof L.Marker) layer.getElement()?.classList.remove('highlighted');
+    }
+    this.highlighted = [];
+    const key = this.highlightedKey;
+    if (!key) return;
+    for (const layer of this.layersByKey.get(key) ?? []) {
+      if (layer instanceof L.Path) {
+        const { color, weight, opacity } = layer.options;
+        this.highlighted.push({ layer, style: { color, weight, opacity } });
+        layer.setStyle({ color: HIGHLIGHT_COLOR, weight: 3, opacity: 1 });
+        if (this.map?.hasLayer(layer)) layer.bringToFront();
+      } else if (layer instanceof L.Marker) {
+        this.highlighted.push({ layer });
+        layer.getElement()?.classList.add('highlighted');
+      }
+    }
+  }
+
+  /** Treatment for an item below the minimum sample, or null when its sample is large enough. */
+  private lowSampleTreatmentFor(item: SurveyAggregate | SurveyCity): LowSampleTreatment | null {
+    return item.responseCount < this.minSample() ? this.lowSampleTreatment() : null;
+  }
+
   /** Called from state dropdown; only drill to city when a state is selected. */
   onStateSelectFromSelect(value: string): void {
     if (value) this.onStateSelect(value);
@@ -414,189 +1567,673 @@ export class MapComponent implements AfterViewInit, OnDestroy {
   private updateMarkers(): void {
     if (!this.map) return;
     this.clearMarkers();
-    const data = this.currentMapData();
     const metric = this.selectedMetric();
-    const displayType = this.displayType();
-    const drillLevel = this.drillLevel();
-    const isAggregate = (d: SurveyAggregate | SurveyCity): d is SurveyAggregate => 'level' in d && 'name' in d;
+    const displayType = this.selectedDisplayType();
+    const comparison = this.comparison();
+    if (isDensityDisplay(displayType)) {
+      this.renderDensity(metric, displayType);
+    } else if (comparison) {
+      this.addComparisonLayers(comparison, metric, displayType);
+    } else {
+      this.renderItems(this.currentMapData(), metric, displayType);
+    }
+    this.updateSwipeClip();
+    this.afterLayersDrawn();
+  }
 
+  /** Plain markers, one per region: no clusters, polygons, density layers or comparison. */
+  private canUpdateInPlace(): boolean {
+    const displayType = this.selectedDisplayType();
+    const markers = displayType === 'circle' || displayType === 'time';
+    return markers && this.drillLevel() !== 'city' && this.compareMode() === 'off';
+  }
+
+  /**
+   * Redraw only the markers whose item changed, animating from the old marker to the new one.
+   * Unchanged regions keep their aggregate (see `reuseUnchanged`) and therefore their marker.
+   */
+  private updateMarkersInPlace(): void {
+    if (!this.map) return;
+    const metric = this.selectedMetric();
+    const displayType = this.selectedDisplayType();
+    const current = new Set<string>();
+    for (const item of this.currentMapData()) {
+      const key = itemKey(item);
+      current.add(key);
+      if (this.markerItems.get(key) === item) continue;
+      const previous = this.removeItemLayers(key);
+      const layer = this.addMarker(item, metric, displayType);
+      if (layer) animateMarkerChange(layer, previous[0]);
+    }
+    for (const key of [...this.markerItems.keys()]) {
+      if (!current.has(key)) this.removeItemLayers(key);
+    }
+    this.afterLayersDrawn();
+  }
+
+  /** Take an item's layers off the map; returns them. */
+  private removeItemLayers(key: string): L.Layer[] {
+    const layers = this.layersByKey.get(key) ?? [];
+    for (const layer of layers) this.map?.removeLayer(layer);
+    this.markerLayers = this.markerLayers.filter((l) => !layers.includes(l));
+    this.layersByKey.delete(key);
+    const item = this.markerItems.get(key);
+    const place = item && placeKey(item);
+    if (place && place !== key) {
+      const remaining = (this.layersByKey.get(place) ?? []).filter((l) => !layers.includes(l));
+      if (remaining.length > 0) this.layersByKey.set(place, remaining);
+      else this.layersByKey.delete(place);
+    }
+    this.markerItems.delete(key);
+    this.focusTargets.delete(key);
+    return layers;
+  }
+
+  /**
+   * Draw items for the current drill level: choropleth polygons in area view at the
+   * country/state level, clustered cities at the city level, markers otherwise.
+   * Comparison layers go to `pane` and are never clustered.
+   */
+  private renderItems(
+    data: (SurveyAggregate | SurveyCity)[],
+    metric: MetricKey,
+    displayType: DisplayType,
+    pane?: string
+  ): void {
+    const drillLevel = this.drillLevel();
     const isCountryChoropleth = displayType === 'area' && drillLevel === 'country';
     if (isCountryChoropleth && data.length > 0) {
-      this.addChoroplethLayer(data as SurveyAggregate[], metric);
+      this.addChoroplethLayer(data as SurveyAggregate[], metric, pane);
+      return;
+    }
+
+    const country = this.selectedCountry();
+    // Countries the admin-1 asset has no boundaries for get area circles once it has loaded.
+    const isStateChoropleth = displayType === 'area' && drillLevel === 'state' && !!country;
+    if (isStateChoropleth && data.length > 0) {
+      this.addStateChoroplethLayer(data as SurveyAggregate[], metric, country!, pane);
+      return;
+    }
+
+    if (drillLevel === 'city' && this.compareMode() === 'off') {
+      this.clusterCache.clear();
+      this.addCityClusters(data as SurveyCity[], metric, displayType);
       return;
     }
 
     for (const item of data) {
-      const value = item[metric] as number | undefined;
-      const safeVal = safeMetricValue(value);
-      const color = getColor(metric, safeVal);
-      const label = isAggregate(item) ? item.name : `${(item as SurveyCity).city}, ${(item as SurveyCity).state ? (item as SurveyCity).state + ', ' : ''}${(item as SurveyCity).country}`;
-      const responseCount = item.responseCount;
-      const surveyDate = item.surveyDate;
-
-      if (displayType === 'time') {
-        const timeStr = formatSurveyTime(surveyDate);
-        const divIcon = L.divIcon({
-          className: 'survey-time-marker',
-          html: `<span class="survey-time-label">${timeStr}</span>`,
-          iconSize: [120, 24],
-          iconAnchor: [60, 12]
-        });
-        const marker = L.marker([item.latitude, item.longitude], { icon: divIcon });
-        const tooltipContent = this.buildTooltipContent(item, metric, safeVal, label, responseCount, surveyDate);
-        marker.bindTooltip(tooltipContent, {
-          permanent: false,
-          direction: 'top',
-          className: 'survey-marker-tooltip'
-        });
-        if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
-          marker.on('click', () => {
-            if (item.level === 'country') this.onCountrySelect(item.name);
-            if (item.level === 'state' && item.country) this.onStateSelect(item.name);
-          });
-        }
-        marker.addTo(this.map);
-        this.markerLayers.push(marker);
-      } else if (displayType === 'area') {
-        const level: DrillLevel = isAggregate(item) ? item.level : 'city';
-        const radiusMeters = level === 'country' ? 600000 : level === 'state' ? 180000 : 70000;
-        const areaCircle = L.circle([item.latitude, item.longitude], {
-          radius: radiusMeters,
-          fillColor: color,
-          color: 'rgba(31, 41, 55, 0.6)',
-          weight: 1.5,
-          opacity: 0.8,
-          fillOpacity: 0.4
-        });
-        const tooltipContent = this.buildTooltipContent(item, metric, safeVal, label, responseCount, surveyDate);
-        areaCircle.bindTooltip(tooltipContent, {
-          permanent: false,
-          direction: 'top',
-          className: 'survey-marker-tooltip'
+      this.addMarker(item, metric, displayType, pane);
+    }
+  }
+
+  /**
+   * Heatmap or hexagons of the cities in the selection. Swipe draws each compared side in its
+   * pane; difference colors hexagons by their change and shows side B's density as heat.
+   */
+  private renderDensity(metric: MetricKey, displayType: DisplayType): void {
+    const sides = this.comparisonCities();
+    const draw = (cities: SurveyCity[], pane?: string, baseline?: SurveyCity[]) => {
+      if (displayType === 'heatmap') this.addHeatLayer(cities, metric, pane);
+      else this.addHexbins(cities, metric, pane, baseline);
+    };
+    if (!sides) {
+      draw(this.citiesInSelection());
+    } else if (this.compareMode() === 'difference') {
+      draw(sides.b, undefined, sides.a);
+    } else {
+      draw(sides.a, PANE_A);
+      draw(sides.b, PANE_B);
+    }
+  }
+
+  /**
+   * Heat of the cities weighted by responses or detractor share. Hidden low-sample cities are
+   * left out; invisible hit markers keep tooltips and table hover working over the heat.
+   */
+  private addHeatLayer(cities: SurveyCity[], metric: MetricKey, pane?: string): void {
+    if (!this.map) return;
+    const shown = cities.filter((c) => this.lowSampleTreatmentFor(c) !== 'hide');
+    const byDetractors = this.heatWeight() === 'detractors';
+    const points = shown.map((c) => ({
+      latitude: c.latitude,
+      longitude: c.longitude,
+      weight: byDetractors ? (detractorShare(c.nps, c.distribution?.nps) ?? 0) : c.responseCount
+    }));
+    const heat = new HeatLayer(points, { gradient: this.colorTheme.heatGradient(), ...(pane ? { pane } : {}) });
+    heat.addTo(this.map);
+    this.markerLayers.push(heat);
+    for (const city of shown) {
+      const value = this.metrics.value(city, metric);
+      const hit = L.circleMarker([city.latitude, city.longitude], {
+        ...this.pathOptions(pane, false),
+        radius: HEAT_HIT_RADIUS,
+        opacity: 0,
+        fillOpacity: 0
+      });
+      const tooltipContent = this.buildTooltipContent(city, metric, value, itemLabel(city), city.responseCount, city.surveyDate);
+      hit.bindTooltip(tooltipContent, {
+        permanent: false,
+        direction: 'top',
+        className: 'survey-marker-tooltip'
+      });
+      this.registerLayer(hit, city);
+      hit.addTo(this.map);
+      this.markerLayers.push(hit);
+    }
+  }
+
+  /**
+   * Bin cities into hexagons of a fixed screen size at the current zoom and color each by its
+   * response-weighted score, or by its change from the same hexagon in `baseline`.
+   */
+  private addHexbins(cities: SurveyCity[], metric: MetricKey, pane?: string, baseline?: SurveyCity[]): void {
+    if (!this.map) return;
+    const leafletMap = this.map;
+    const zoom = leafletMap.getZoom();
+    this.hexbinZoom = zoom;
+    const project = (lat: number, lng: number) => leafletMap.project([lat, lng], zoom);
+    const before = baseline
+      ? new Map(hexbin(baseline, project, HEX_RADIUS_PX).map((bin) => [bin.key, aggregateCluster(bin.items)]))
+      : null;
+    const bins = hexbin(cities, project, HEX_RADIUS_PX).map((bin) => {
+      const agg = aggregateCluster(bin.items);
+      const base = before?.get(bin.key);
+      const delta = base ? metricDelta({ key: bin.key, a: base, b: agg }, metric, this.metrics.valueOf) : undefined;
+      return { bin, agg, delta };
+    });
+    const span = bins.reduce((max, b) => Math.max(max, Math.abs(b.delta ?? 0)), 0);
+    if (before) this.hexbinDeltaSpan.set(span);
+
+    for (const { bin, agg, delta } of bins) {
+      const lowSample = this.lowSampleTreatmentFor(agg);
+      if (lowSample === 'hide') continue;
+      const fade = lowSample === 'fade' ? LOW_SAMPLE_FADE : 1;
+      const value = this.metrics.value(agg, metric);
+      const color = before
+        ? this.colorTheme.deltaColorFor(metric, delta, span)
+        : this.colorTheme.colorFor(metric, value);
+      const corners = hexCorners(bin.center, HEX_RADIUS_PX).map((p) => leafletMap.unproject([p.x, p.y], zoom));
+      const hex = L.polygon(corners, {
+        ...this.pathOptions(pane, lowSample === 'hatch'),
+        fillColor: color,
+        color: '#fff',
+        weight: 1,
+        dashArray: (before ? delta : value) === undefined ? NO_DATA_DASH : undefined,
+        opacity: 0.8 * fade,
+        fillOpacity: 0.75 * fade
+      });
+      const label = bin.items.length === 1 ? itemLabel(bin.items[0]) : `${agg.name}: ${clusterMemberSummary(bin.items)}`;
+      const lines = [this.buildTooltipContent(agg, metric, value, label, agg.responseCount, agg.surveyDate)];
+      if (before) lines.push(`<strong>Change: ${formatDelta(delta, this.metrics.decimals(metric))}</strong>`);
+      if (bin.items.length > 1) lines.push('<em>Click to zoom in</em>');
+      hex.bindTooltip(lines.join('<br>'), {
+        permanent: false,
+        direction: 'top',
+        className: 'survey-marker-tooltip'
+      });
+      hex.on('click', () => this.zoomInOn(L.latLngBounds(bin.items.map((c) => [c.latitude, c.longitude]))));
+      this.registerLayer(hex, agg, bin.items);
+      hex.addTo(leafletMap);
+      if (lowSample === 'hatch') applyHatch(hex.getElement(), color);
+      this.markerLayers.push(hex);
+    }
+  }
+
+  /** Hexagons are sized in screen pixels, so rebin when the zoom changes. */
+  private refreshHexbins(): void {
+    if (!this.map || this.selectedDisplayType() !== 'hexbin' || this.map.getZoom() === this.hexbinZoom) return;
+    this.updateMarkers();
+  }
+
+  /**
+   * Difference mode draws each region once, colored by the change from A to B. Swipe mode
+   * draws A and B in their own panes, clipped either side of the divider.
+   */
+  private addComparisonLayers(comparison: ComparedItem[], metric: MetricKey, displayType: DisplayType): void {
+    for (const pair of comparison) {
+      if (pair.a) this.comparedByItem.set(pair.a, pair);
+      if (pair.b) this.comparedByItem.set(pair.b, pair);
+    }
+    if (this.compareMode() === 'difference') {
+      this.renderItems(comparison.map((pair) => (pair.b ?? pair.a)!), metric, displayType);
+      return;
+    }
+    const sideA = comparison.flatMap((pair) => (pair.a ? [pair.a] : []));
+    const sideB = comparison.flatMap((pair) => (pair.b ? [pair.b] : []));
+    this.renderItems(sideA, metric, displayType, PANE_A);
+    this.renderItems(sideB, metric, displayType, PANE_B);
+  }
+
+  /** Clip the swipe panes to either side of the divider; clears the clip otherwise. */
+  private updateSwipeClip(): void {
+    if (!this.map) return;
+    const paneA = this.map.getPane(PANE_A);
+    const paneB = this.map.getPane(PANE_B);
+    if (!paneA || !paneB) return;
+    if (this.compareMode() !== 'swipe') {
+      paneA.style.clip = '';
+      paneB.style.clip = '';
+      return;
+    }
+    const size = this.map.getSize();
+    const nw = this.map.containerPointToLayerPoint([0, 0]);
+    const se = this.map.containerPointToLayerPoint(size);
+    const x = nw.x + size.x * this.swipePosition();
+    paneA.style.clip = `rect(${nw.y}px, ${x}px, ${se.y}px, ${nw.x}px)`;
+    paneB.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${x}px)`;
+  }
+
+  /** Fill color for an item: its change in difference mode, otherwise its score. */
+  private itemColor(item: SurveyAggregate | SurveyCity, metric: MetricKey, value: number | undefined): string {
+    const pair = this.compareMode() === 'difference' ? this.comparedByItem.get(item) : undefined;
+    if (pair) return this.colorTheme.deltaColorFor(metric, metricDelta(pair, metric, this.metrics.valueOf), this.comparisonSpan());
+    return this.colorTheme.colorFor(metric, value);
+  }
+
+  /** Dash pattern for an item with nothing to color it by: no score, or no change when comparing. */
+  private noDataDash(item: SurveyAggregate | SurveyCity, metric: MetricKey, value: number | undefined): string | undefined {
+    const pair = this.compareMode() === 'difference' ? this.comparedByItem.get(item) : undefined;
+    const missing = pair ? metricDelta(pair, metric, this.metrics.valueOf) === undefined : value === undefined;
+    return missing ? NO_DATA_DASH : undefined;
+  }
+
+  /** Pane and renderer for a vector marker: canvas unless hatched (patterns need SVG). */
+  private pathOptions(pane: string | undefined, hatched: boolean): L.PathOptions {
+    const options: L.PathOptions = pane ? { pane } : {};
+    if (!hatched) {
+      const key = pane ?? 'overlayPane';
+      let renderer = this.canvasRenderers.get(key);
+      if (!renderer) {
+        renderer = L.canvas({ pane: key, padding: 0.5 });
+        this.canvasRenderers.set(key, renderer);
+      }
+      options.renderer = renderer;
+    }
+    return options;
+  }
+
+  /** Redraw city clusters for the current zoom and viewport. */
+  private refreshCityClusters(): void {
+    if (!this.map || this.drillLevel() !== 'city' || this.compareMode() !== 'off') return;
+    if (isDensityDisplay(this.selectedDisplayType())) return;
+    this.clearMarkers();
+    this.addCityClusters(this.currentMapData() as SurveyCity[], this.selectedMetric(), this.selectedDisplayType());
+    this.afterLayersDrawn();
+  }
+
+  /**
+   * Draw city markers grouped into grid clusters for the current zoom. Single cities keep the
+   * chosen display type; only clusters and cities inside the (padded) viewport are drawn.
+   */
+  private addCityClusters(cities: SurveyCity[], metric: MetricKey, displayType: DisplayType): void {
+    if (!this.map) return;
+    const view = this.map.getBounds().pad(0.25);
+    const zoom = this.map.getZoom();
+    if (zoom >= CLUSTER_MAX_ZOOM) {
+      for (const c of cities) {
+        if (view.contains([c.latitude, c.longitude])) this.addMarker(c, metric, displayType);
+      }
+      return;
+    }
+    let clusters = this.clusterCache.get(zoom);
+    if (!clusters) {
+      const leafletMap = this.map;
+      clusters = clusterByGrid(cities, (lat, lng) => leafletMap.project([lat, lng], zoom), CLUSTER_CELL_PX);
+      this.clusterCache.set(zoom, clusters);
+    }
+    for (const cluster of clusters) {
+      if (!view.intersects(L.latLngBounds(cluster.bounds))) continue;
+      if (cluster.items.length === 1) this.addMarker(cluster.items[0], metric, displayType);
+      else this.addClusterMarker(cluster, metric);
+    }
+  }
+
+  /** One circle for a cluster, colored by its response-weighted score; click zooms in on it. */
+  private addClusterMarker(cluster: MarkerCluster<SurveyCity>, metric: MetricKey): void {
+    if (!this.map) return;
+    const agg = aggregateCluster(cluster.items);
+    const lowSample = this.lowSampleTreatmentFor(agg);
+    if (lowSample === 'hide') return;
+    const fade = lowSample === 'fade' ? LOW_SAMPLE_FADE : 1;
+    const value = this.metrics.value(agg, metric);
+    const color = this.colorTheme.colorFor(metric, value);
+    const radius = Math.min(CLUSTER_RADIUS_MAX, CLUSTER_RADIUS_MIN + Math.log2(cluster.items.length) * 3);
+    const marker = L.circleMarker([agg.latitude, agg.longitude], {
+      ...this.pathOptions(undefined, lowSample === 'hatch'),
+      radius,
+      fillColor: color,
+      color: '#fff',
+      weight: 3,
+      dashArray: value === undefined ? NO_DATA_DASH : undefined,
+      opacity: fade,
+      fillOpacity: 0.85 * fade
+    });
+    const label = `${agg.name}: ${clusterMemberSummary(cluster.items)}`;
+    const tooltipContent = this.buildTooltipContent(agg, metric, value, label, agg.responseCount, agg.surveyDate);
+    marker.bindTooltip(`${tooltipContent}<br><em>Click to expand</em>`, {
+      permanent: false,
+      direction: 'top',
+      className: 'survey-marker-tooltip'
+    });
+    marker.on('click', () => this.zoomInOn(L.latLngBounds(cluster.bounds)));
+    this.registerLayer(marker, agg, cluster.items);
+    marker.addTo(this.map);
+    if (lowSample === 'hatch') applyHatch(marker.getElement(), color);
+    this.markerLayers.push(marker);
+  }
+
+  /** Zoom to a cluster's members, at least far enough that the cluster splits up. */
+  private zoomInOn(bounds: L.LatLngBounds): void {
+    if (!this.map) return;
+    const current = this.map.getZoom();
+    const fit = this.map.getBoundsZoom(bounds.pad(0.2));
+    const zoom = Math.min(CLUSTER_MAX_ZOOM, Math.max(fit, current + 1));
+    this.map.setView(bounds.getCenter(), zoom);
+  }
+
+  /** Add one marker (circle, time label or area circle) for a data item. */
+  private addMarker(
+    item: SurveyAggregate | SurveyCity,
+    metric: MetricKey,
+    displayType: DisplayType,
+    pane?: string
+  ): L.Layer | null {
+    if (!this.map) return null;
+    this.markerItems.set(itemKey(item), item);
+    const lowSample = this.lowSampleTreatmentFor(item);
+    if (lowSample === 'hide') return null;
+    const fade = lowSample === 'fade' ? LOW_SAMPLE_FADE : 1;
+    const value = this.metrics.value(item, metric);
+    const color = this.itemColor(item, metric, value);
+    const dashArray = this.noDataDash(item, metric, value);
+    const label = itemLabel(item);
+    const responseCount = item.responseCount;
+    const surveyDate = item.surveyDate;
+
+    if (displayType === 'time') {
+      const timeStr = formatSurveyTime(surveyDate);
+      const divIcon = L.divIcon({
+        className: lowSample ? `survey-time-marker low-sample-${lowSample}` : 'survey-time-marker',
+        html: `<span class="survey-time-label">${timeStr}</span>`,
+        iconSize: [120, 24],
+        iconAnchor: [60, 12]
+      });
+      const marker = L.marker([item.latitude, item.longitude], { icon: divIcon, pane: pane ?? 'markerPane' });
+      const tooltipContent = this.buildTooltipContent(item, metric, value, label, responseCount, surveyDate);
+      marker.bindTooltip(tooltipContent, {
+        permanent: false,
+        direction: 'top',
+        className: 'survey-marker-tooltip'
+      });
+      if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
+        marker.on('click', () => {
+          if (item.level === 'country') this.onCountrySelect(item.name);
+          if (item.level === 'state' && item.country) this.onStateSelect(item.name);
         });
-        if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
-          areaCircle.on('click', () => {
-            if (item.level === 'country') this.onCountrySelect(item.name);
-            if (item.level === 'state' && item.country) this.onStateSelect(item.name);
-          });
-        }
-        areaCircle.addTo(this.map);
-        this.markerLayers.push(areaCircle);
-      } else {
-        const radius = Math.min(RADIUS_MAX, Math.max(RADIUS_MIN, responseCount / RADIUS_DIVISOR));
-        const circle = L.circleMarker([item.latitude, item.longitude], {
-          radius,
-          fillColor: color,
-          color: '#1f2937',
-          weight: 1,
-          opacity: 1,
-          fillOpacity: 0.8
+      }
+      this.registerLayer(marker, item);
+      marker.addTo(this.map);
+      this.markerLayers.push(marker);
+      return marker;
+    } else if (displayType === 'area') {
+      const level: DrillLevel = isAggregate(item) ? item.level : 'city';
+      const radiusMeters = level === 'country' ? 600000 : level === 'state' ? 180000 : 70000;
+      const areaCircle = L.circle([item.latitude, item.longitude], {
+        ...this.pathOptions(pane, lowSample === 'hatch'),
+        radius: radiusMeters,
+        fillColor: color,
+        color: 'rgba(31, 41, 55, 0.6)',
+        weight: 1.5,
+        dashArray,
+        opacity: 0.8 * fade,
+        fillOpacity: 0.4 * fade
+      });
+      const tooltipContent = this.buildTooltipContent(item, metric, value, label, responseCount, surveyDate);
+      areaCircle.bindTooltip(tooltipContent, {
+        permanent: false,
+        direction: 'top',
+        className: 'survey-marker-tooltip'
+      });
+      if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
+        areaCircle.on('click', () => {
+          if (item.level === 'country') this.onCountrySelect(item.name);
+          if (item.level === 'state' && item.country) this.onStateSelect(item.name);
         });
-        const tooltipContent = this.buildTooltipContent(item, metric, safeVal, label, responseCount, surveyDate);
-        circle.bindTooltip(tooltipContent, {
-          permanent: false,
-          direction: 'top',
-          className: 'survey-marker-tooltip'
+      }
+      this.registerLayer(areaCircle, item);
+      areaCircle.addTo(this.map);
+      if (lowSample === 'hatch') applyHatch(areaCircle.getElement(), color);
+      this.markerLayers.push(areaCircle);
+      return areaCircle;
+    } else {
+      const radius = Math.min(RADIUS_MAX, Math.max(RADIUS_MIN, responseCount / RADIUS_DIVISOR));
+      const circle = L.circleMarker([item.latitude, item.longitude], {
+        ...this.pathOptions(pane, lowSample === 'hatch'),
+        radius,
+        fillColor: color,
+        color: '#1f2937',
+        weight: 1,
+        dashArray,
+        opacity: fade,
+        fillOpacity: 0.8 * fade
+      });
+      const tooltipContent = this.buildTooltipContent(item, metric, value, label, responseCount, surveyDate);
+      circle.bindTooltip(tooltipContent, {
+        permanent: false,
+        direction: 'top',
+        className: 'survey-marker-tooltip'
+      });
+      if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
+        circle.on('click', () => {
+          if (item.level === 'country') this.onCountrySelect(item.name);
+          if (item.level === 'state' && item.country) this.onStateSelect(item.name);
         });
-        if (isAggregate(item) && (item.level === 'country' || item.level === 'state')) {
-          circle.on('click', () => {
-            if (item.level === 'country') this.onCountrySelect(item.name);
-            if (item.level === 'state' && item.country) this.onStateSelect(item.name);
-          });
-        }
-        circle.addTo(this.map);
-        this.markerLayers.push(circle);
       }
+      this.registerLayer(circle, item);
+      circle.addTo(this.map);
+      if (lowSample === 'hatch') applyHatch(circle.getElement(), color);
+      this.markerLayers.push(circle);
+      return circle;
     }
   }
 
   private buildTooltipContent(
     item: SurveyAggregate | SurveyCity,
-    metric: SurveyMetric,
-    value: number,
+    metric: MetricKey,
+    value: number | undefined,
     label: string,
     responseCount: number,
     surveyDate?: string
   ): string {
-    const metricLabel = METRIC_LABELS[metric];
+    const metricLabel = this.metrics.label(metric);
+    const source = this.metrics.get(metric)?.source;
+    const confidence = source?.kind === 'survey' ? metricConfidence(item, source.metric) : undefined;
+    const minSample = this.minSample();
     const lines = [
       label,
-      `${metricLabel}: ${formatMetricValue(value, metric)}`,
+      `${metricLabel}: ${this.metrics.format(value, metric)}`,
+      formatConfidence(confidence, metricLabel, (v) => this.metrics.format(v, metric)),
       `Response Count: ${responseCount}`,
-      `NPS: ${formatMetricValue(item.nps, 'nps')}`,
-      `CSAT: ${formatMetricValue(item.csat, 'csat')}`,
-      `CES: ${formatMetricValue(item.ces, 'ces')}`,
-      surveyDate ? `Survey: ${formatSurveyTime(surveyDate)}` : null
+      formatCoverage(metricLabel, this.metrics.coverage(item, metric), responseCount),
+      responseCount < minSample ? `⚠ Low sample (n=${responseCount} < ${minSample}); treat with caution` : null,
+      ...this.metrics.keys.map((key) => `${this.metrics.label(key)}: ${this.metrics.format(this.metrics.value(item, key), key)}`),
+      formatNpsBreakdown(item.distribution?.nps),
+      surveyDate ? `Survey: ${formatSurveyTime(surveyDate)}` : null,
+      ...this.comparisonLines(item, metric)
     ].filter(Boolean) as string[];
     return lines.join('<br>');
   }
 
-  private addChoroplethLayer(aggregates: SurveyAggregate[], metric: SurveyMetric): void {
-    const byGeoName = new Map<string, { value: number; color: string; agg: SurveyAggregate }>();
+  /** "Q1 2025: 34 (n=120)", "Q2 2025: 41 (n=98)", "Change: +7" when comparing. */
+  private comparisonLines(item: SurveyAggregate | SurveyCity, metric: MetricKey): string[] {
+    const pair = this.comparedByItem.get(item);
+    const sides = this.comparisonSides();
+    if (!pair || !sides) return [];
+    const side = (label: string, x: SurveyAggregate | SurveyCity | null) =>
+      x ? `${label}: ${this.metrics.format(this.metrics.value(x, metric), metric)} (n=${x.responseCount})` : `${label}: no data`;
+    return [
+      `<strong>${side(sides.a.label, pair.a)}</strong>`,
+      `<strong>${side(sides.b.label, pair.b)}</strong>`,
+      `<strong>Change: ${formatDelta(metricDelta(pair, metric, this.metrics.valueOf), this.metrics.decimals(metric))}</strong>`
+    ];
+  }
+
+  private addChoroplethLayer(aggregates: SurveyAggregate[], metric: MetricKey, pane?: string): void {
+    const boundaries$ = forkJoin([this.geoService.getCountriesGeoJson(), this.geocoding.countries()]);
+    this.choroplethSubs.add(boundaries$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      next: ([geojson, countries]) => {
+        if (!this.map) return;
+        const byFeatureKey = new Map<string, ChoroplethEntry>();
+        for (const agg of aggregates) {
+          const value = this.metrics.value(agg, metric);
+          const entry = { value, color: this.itemColor(agg, metric, value), agg };
+          byFeatureKey.set(countryFeatureKey(countries, agg.name), entry);
+        }
+        this.renderChoropleth(geojson, byFeatureKey, featureKeys, metric, (agg) => this.onCountrySelect(agg.name), pane);
+        this.afterLayersDrawn();
+      }
+    }));
+  }
+
+  /**
+   * Color real state/province polygons from the bundled admin-1 asset.
+   * States that have no matching polygon fall back to area circles.
+   */
+  private addStateChoroplethLayer(
+    aggregates: SurveyAggregate[],
+    metric: MetricKey,
+    country: string,
+    pane?: string
+  ): void {
+    const byRegion = new Map<string, ChoroplethEntry>();
     for (const agg of aggregates) {
-      const geoName = geoNameForCountry(agg.name);
-      const value = agg[metric];
-      byGeoName.set(geoName, { value, color: getColor(metric, value), agg });
+      const value = this.metrics.value(agg, metric);
+      byRegion.set(normalizePlaceName(agg.name), { value, color: this.itemColor(agg, metric, value), agg });
     }
-    this.geoService.getCountriesGeoJson().pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+    this.choroplethSubs.add(this.geoService.getStatesGeoJson(country).pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
       next: (geojson) => {
         if (!this.map) return;
-        const geoLayer = L.geoJSON(geojson, {
-          style: (feature) => {
-            const name = feature?.properties?.['name'];
-            const info = name ? byGeoName.get(name) : undefined;
-            const color = info?.color ?? '#e5e7eb';
-            return {
-              fillColor: color,
-              weight: 1,
-              opacity: 1,
-              color: '#374151',
-              fillOpacity: 0.65
-            };
-          },
-          onEachFeature: (feature, layer) => {
-            const name = feature.properties?.['name'];
-            const info = name ? byGeoName.get(name) : undefined;
-            if (info) {
-              const { agg } = info;
-              const label = agg.name;
-              const content = this.buildTooltipContent(
-                agg,
-                metric,
-                info.value,
-                label,
-                agg.responseCount,
-                agg.surveyDate
-              );
-              layer.bindTooltip(content, {
-                permanent: false,
-                direction: 'top',
-                className: 'survey-marker-tooltip'
-              });
-              layer.on('click', () => this.onCountrySelect(agg.name));
-            }
-          }
-        });
-        geoLayer.addTo(this.map);
-        this.geoJsonLayer = geoLayer;
-        this.fitMapToData();
+        const matched = geojson
+          ? this.renderChoropleth(geojson, byRegion, stateFeatureKeys, metric, (agg) => this.onStateSelect(agg.name), pane)
+          : new Set<SurveyAggregate>();
+        for (const agg of aggregates) {
+          if (!matched.has(agg)) this.addMarker(agg, metric, 'area', pane);
+        }
+        this.afterLayersDrawn();
+      },
+      error: () => {
+        // Boundary asset unavailable: keep the state level usable with area circles.
+        for (const agg of aggregates) this.addMarker(agg, metric, 'area', pane);
+        this.afterLayersDrawn();
+      }
+    }));
+  }
+
+  /**
+   * Draw a GeoJSON layer colored from `entries`, looked up by the first of each feature's
+   * `keysFor` keys that has an entry. Returns the aggregates that were matched to a polygon;
+   * the caller adds any fallback markers, then calls `afterLayersDrawn`.
+   */
+  private renderChoropleth(
+    geojson: FeatureCollection,
+    entries: Map<string, ChoroplethEntry>,
+    keysFor: (feature: Feature) => string[],
+    metric: MetricKey,
+    onSelect: (agg: SurveyAggregate) => void,
+    pane?: string
+  ): Set<SurveyAggregate> {
+    const matched = new Set<SurveyAggregate>();
+    const find = (feature: Feature | undefined) => {
+      if (!feature) return undefined;
+      for (const key of keysFor(feature)) {
+        const entry = entries.get(key);
+        if (entry) return entry;
+      }
+      return undefined;
+    };
+    // Hidden low-sample regions are drawn like regions without data.
+    const lookup = (feature: Feature | undefined) => {
+      const entry = find(feature);
+      if (entry && this.lowSampleTreatmentFor(entry.agg) === 'hide') {
+        matched.add(entry.agg);
+        return undefined;
+      }
+      return entry;
+    };
+    const hatched: { layer: L.Layer; color: string }[] = [];
+    const geoLayer = L.geoJSON(geojson, {
+      ...(pane ? { pane } : {}),
+      style: (feature) => {
+        const info = lookup(feature);
+        const color = info?.color ?? '#e5e7eb';
+        const lowSample = info ? this.lowSampleTreatmentFor(info.agg) : null;
+        return {
+          fillColor: color,
+          weight: 1,
+          opacity: 1,
+          color: '#374151',
+          dashArray: info ? this.noDataDash(info.agg, metric, info.value) : undefined,
+          fillOpacity: lowSample === 'fade' ? 0.65 * LOW_SAMPLE_FADE : 0.65
+        };
+      },
+      onEachFeature: (feature, layer) => {
+        const info = lookup(feature);
+        if (info) {
+          const { agg } = info;
+          matched.add(agg);
+          if (this.lowSampleTreatmentFor(agg) === 'hatch') hatched.push({ layer, color: info.color });
+          const label = agg.name;
+          const content = this.buildTooltipContent(
+            agg,
+            metric,
+            info.value,
+            label,
+            agg.responseCount,
+            agg.surveyDate
+          );
+          layer.bindTooltip(content, {
+            permanent: false,
+            direction: 'top',
+            className: 'survey-marker-tooltip'
+          });
+          layer.on('click', () => onSelect(agg));
+          this.registerLayer(layer, agg);
+        }
       }
     });
+    geoLayer.addTo(this.map!);
+    for (const { layer, color } of hatched) {
+      if (layer instanceof L.Path) applyHatch(layer.getElement(), color);
+    }
+    this.geoJsonLayers.push(geoLayer);
+    return matched;
   }
 
   private clearMarkers(): void {
-    if (this.geoJsonLayer && this.map) {
-      this.map.removeLayer(this.geoJsonLayer);
-      this.geoJsonLayer = null;
+    this.choroplethSubs.unsubscribe();
+    this.choroplethSubs = new Subscription();
+    for (const layer of this.geoJsonLayers) {
+      this.map?.removeLayer(layer);
     }
+    this.geoJsonLayers = [];
     for (const layer of this.markerLayers) {
       this.map?.removeLayer(layer);
     }
     this.markerLayers = [];
+    for (const layer of this.alertLayers) {
+      this.map?.removeLayer(layer);
+    }
+    this.alertLayers = [];
+    this.focusTargets.clear();
+    this.markerItems.clear();
+    this.comparedByItem.clear();
+    this.layersByKey.clear();
+    this.highlighted = [];
   }
 
   ngOnDestroy(): void {
     this.clearMarkers();
+    this.keyboardNav?.clear();
     if (this.map) {
       this.map.remove();
       this.map = null;
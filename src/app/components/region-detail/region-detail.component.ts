@@ -0,0 +1,146 @@
+import { Component, computed, inject, input, output } from '@angular/core';
+import { MetricKey, SurveyAggregate, SurveyCity, SurveyMetric } from '../../models/survey-city';
+import { ColorThemeService } from '../../services/color-theme.service';
+import { MetricRegistry } from '../../services/metric-registry';
+import { npsBreakdown } from '../../utils/response-distribution';
+import { regionTrend, sparklinePath, sparklinePoints } from '../../utils/region-trend';
+
+const SPARK_WIDTH = 140;
+const SPARK_HEIGHT = 28;
+/** Children listed at each end of the ranking. */
+const RANK_COUNT = 3;
+
+/** Survey scores with a trend; other metrics have no per-response history to pool. */
+const TREND_METRICS: { value: SurveyMetric; label: string; decimals: number }[] = [
+  { value: 'nps', label: 'NPS', decimals: 0 },
+  { value: 'csat', label: 'CSAT', decimals: 0 },
+  { value: 'ces', label: 'CES', decimals: 1 }
+];
+
+interface RankedChild {
+  name: string;
+  value: number;
+  responseCount: number;
+  item: SurveyAggregate | SurveyCity;
+}
+
+/**
+ * Detail for the country or state being viewed: a sparkline per metric over the survey
+ * periods of `rows`, the NPS promoter/passive/detractor split when the region has a raw
+ * distribution, and its best and worst `children` by `metric`. Children below `minSample`
+ * responses are left out of the ranking. Clicking a child reports it through `childSelect`.
+ */
+@Component({
+  selector: 'app-region-detail',
+  standalone: true,
+  templateUrl: './region-detail.component.html',
+  styleUrl: './region-detail.component.css'
+})
+export class RegionDetailComponent {
+  private readonly colorTheme = inject(ColorThemeService);
+  private readonly metrics = inject(MetricRegistry);
+
+  readonly region = input.required<SurveyAggregate>();
+  /** The region's rows over all dates, for the trend. */
+  readonly rows = input<SurveyCity[]>([]);
+  /** What the map shows inside the region: its states or cities. */
+  readonly children = input<(SurveyAggregate | SurveyCity)[]>([]);
+  readonly metric = input<MetricKey>('nps');
+  readonly minSample = input(0);
+
+  readonly childSelect = output<SurveyAggregate | SurveyCity>();
+  readonly closed = output<void>();
+
+  readonly sparkWidth = SPARK_WIDTH;
+  readonly sparkHeight = SPARK_HEIGHT;
+
+  private readonly trend = computed(() => regionTrend(this.rows()));
+
+  readonly sparklines = computed(() => {
+    const { periods, values, responses } = this.trend();
+    return TREND_METRICS.map(({ value: metric, label, decimals }) => {
+      const points = sparklinePoints(values[metric], SPARK_WIDTH, SPARK_HEIGHT);
+      const first = points[0];
+      const last = points[points.length - 1];
+      const change = first && last && first !== last ? last.value - first.value : undefined;
+      return {
+        metric,
+        label,
+        points,
+        path: sparklinePath(points),
+        latest: last ? last.value.toFixed(decimals) : '—',
+        change: change === undefined ? null : formatChange(change, decimals),
+        // One line per point for the tooltip and screen readers.
+        description: points
+          .map((p) => `${periods[p.index].label}: ${p.value.toFixed(decimals)} (n=${responses[p.index]})`)
+          .join('\n')
+      };
+    });
+  });
+
+  /** "Q1 2024 – Q4 2025": the first and last periods with responses. */
+  readonly span = computed(() => {
+    const { periods, responses } = this.trend();
+    const used = responses.flatMap((n, i) => (n > 0 ? [i] : []));
+    if (used.length === 0) return '';
+    const first = used[0];
+    const last = used[used.length - 1];
+    return first === last ? periods[first].label : `${periods[first].label} – ${periods[last].label}`;
+  });
+
+  /** Promoter, passive and detractor shares in percent, or null without an NPS distribution. */
+  readonly breakdown = computed(() => {
+    const buckets = this.region().distribution?.nps;
+    if (!buckets) return null;
+    const { promoters, passives, detractors, total } = npsBreakdown(buckets);
+    if (total === 0) return null;
+    const pct = (n: number) => Math.round((n / total) * 100);
+    const shares = { promoters: pct(promoters), passives: pct(passives), detractors: pct(detractors) };
+    const label = `Promoters ${shares.promoters}%, passives ${shares.passives}%, detractors ${shares.detractors}%`;
+    return { ...shares, label };
+  });
+
+  readonly metricLabel = computed(() => this.metrics.label(this.metric()));
+
+  /** Children with a score and a large enough sample, best first. */
+  private readonly ranked = computed(() => {
+    const metric = this.metric();
+    const minSample = this.minSample();
+    const higherIsBetter = this.colorTheme.theme().thresholds[metric]?.higherIsBetter !== false;
+    return this.children()
+      .filter((c) => c.responseCount >= minSample)
+      .map((item): RankedChild | null => {
+        const value = this.metrics.value(item, metric);
+        if (value === undefined) return null;
+        const name = 'level' in item ? item.name : item.city;
+        return { name, value, responseCount: item.responseCount, item };
+      })
+      .filter((c): c is RankedChild => c !== null)
+      .sort((a, b) => (higherIsBetter ? b.value - a.value : a.value - b.value));
+  });
+
+  /** Best children, then the worst ones not already listed (worst last). */
+  readonly top = computed(() => this.ranked().slice(0, RANK_COUNT));
+  readonly bottom = computed(() => {
+    const ranked = this.ranked();
+    return ranked.slice(Math.max(RANK_COUNT, ranked.length - RANK_COUNT));
+  });
+  readonly excluded = computed(() => this.children().length - this.ranked().length);
+
+  readonly childNoun = computed(() => (this.region().level === 'country' ? 'states' : 'cities'));
+
+  format(value: number): string {
+    return this.metrics.format(value, this.metric());
+  }
+
+  /** 1-based place of a child in the full ranking. */
+  rankOf(child: RankedChild): number {
+    return this.ranked().indexOf(child) + 1;
+  }
+}
+
+function formatChange(change: number, decimals: number): string {
+  const rounded = change.toFixed(decimals);
+  if (Number(rounded) === 0) return '±0';
+  return change > 0 ? `+${rounded}` : `−${rounded.slice(1)}`;
+}
@@ -0,0 +1,122 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { catchError, of } from 'rxjs';
+import { SurveyCity } from '../../models/survey-city';
+import { RecentSearchesService } from '../../services/recent-searches.service';
+import { CountryResolver } from '../../services/geocoding/country-resolver';
+import { GeocodingService } from '../../services/geocoding/geocoding.service';
+import { uniqueId } from '../../utils/element-id';
+import {
+  RegionSearchResult,
+  buildRegionIndex,
+  regionContext,
+  regionResultKey,
+  searchRegions
+} from '../../utils/region-search';
+
+const KIND_LABELS: Record<RegionSearchResult['kind'], string> = {
+  country: 'Country',
+  state: 'State',
+  city: 'City'
+};
+
+/** Full name and aliases of a country, so "United States" finds rows filed under "USA". */
+function countryNames(countries: CountryResolver | null, country: string): string[] {
+  const record = countries?.resolve(country);
+  return record ? [record.name, ...record.aliases, record.iso3] : [];
+}
+
+/**
+ * Search box over every country, state and city in `data`, with fuzzy autocomplete. An empty
+ * box lists recent picks. A pick is remembered (see `RecentSearchesService`) and reported
+ * through `regionSelect`.
+ */
+@Component({
+  selector: 'app-region-search',
+  standalone: true,
+  templateUrl: './region-search.component.html',
+  styleUrl: './region-search.component.css'
+})
+export class RegionSearchComponent {
+  private readonly recentSearches = inject(RecentSearchesService);
+  /** Null until the country table has loaded (or when it cannot be); names match as written. */
+  private readonly countries = toSignal(
+    inject(GeocodingService)
+      .countries()
+      .pipe(catchError(() => of(null))),
+    { initialValue: null }
+  );
+
+  readonly uid = uniqueId('region-search');
+
+  readonly data = input<SurveyCity[]>([]);
+  readonly regionSelect = output<RegionSearchResult>();
+
+  readonly query = signal('');
+  readonly open = signal(false);
+  readonly activeIndex = signal(0);
+
+  private readonly index = computed(() => {
+    const countries = this.countries();
+    return buildRegionIndex(this.data(), (country) => countryNames(countries, country));
+  });
+
+  /** Matches for the query, or the recent picks still present in the data. */
+  readonly options = computed(() => {
+    const index = this.index();
+    const query = this.query();
+    if (query.trim()) return searchRegions(index, query);
+    const present = new Set(index.map((e) => regionResultKey(e.result)));
+    return this.recentSearches.recent().filter((r) => present.has(regionResultKey(r)));
+  });
+
+  readonly showingRecent = computed(() => !this.query().trim() && this.options().length > 0);
+
+  readonly key = regionResultKey;
+  readonly context = regionContext;
+
+  kindLabel(result: RegionSearchResult): string {
+    return KIND_LABELS[result.kind];
+  }
+
+  onInput(value: string): void {
+    this.query.set(value);
+    this.activeIndex.set(0);
+    this.open.set(true);
+  }
+
+  onKeyDown(event: KeyboardEvent): void {
+    const count = this.options().length;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!this.open()) {
+        this.open.set(true);
+        return;
+      }
+      if (count === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      this.activeIndex.set((this.activeIndex() + step + count) % count);
+    } else if (event.key === 'Enter') {
+      const result = this.options()[this.activeIndex()];
+      if (this.open() && result) {
+        event.preventDefault();
+        this.choose(result);
+      }
+    } else if (event.key === 'Escape' && (this.open() || this.query())) {
+      event.preventDefault();
+      if (this.open()) this.open.set(false);
+      else this.query.set('');
+    }
+  }
+
+  choose(result: RegionSearchResult): void {
+    this.recentSearches.add(result);
+    this.query.set('');
+    this.open.set(false);
+    this.regionSelect.emit(result);
+  }
+
+  clearRecent(): void {
+    this.recentSearches.clear();
+  }
+}
@@ -0,0 +1,43 @@
+import { Component, computed, input, output } from '@angular/core';
+import { SegmentFilter, SurveyCity } from '../../models/survey-city';
+import { dimensionValues, hasSegmentFilter } from '../../utils/segment-filter';
+
+/**
+ * Multi-select per segment dimension found in the data. Emits the whole filter on every
+ * change; the parent applies it before aggregation.
+ */
+@Component({
+  selector: 'app-segment-filter',
+  standalone: true,
+  templateUrl: './segment-filter.component.html',
+  styleUrl: './segment-filter.component.css'
+})
+export class SegmentFilterComponent {
+  /** Full (unfiltered) survey data; used to list dimensions and their values. */
+  readonly data = input<SurveyCity[]>([]);
+  readonly filter = input<SegmentFilter>({});
+  readonly filterChange = output<SegmentFilter>();
+
+  readonly dimensions = computed(() => dimensionValues(this.data()));
+  readonly activeCount = computed(() =>
+    Object.values(this.filter()).reduce((sum, values) => sum + values.length, 0)
+  );
+  readonly isFiltered = computed(() => hasSegmentFilter(this.filter()));
+
+  isSelected(name: string, value: string): boolean {
+    return this.filter()[name]?.includes(value) ?? false;
+  }
+
+  toggle(name: string, value: string, selected: boolean): void {
+    const current = this.filter()[name] ?? [];
+    const values = selected ? [...current, value] : current.filter((v) => v !== value);
+    const next = { ...this.filter() };
+    if (values.length > 0) next[name] = values;
+    else delete next[name];
+    this.filterChange.emit(next);
+  }
+
+  clear(): void {
+    this.filterChange.emit({});
+  }
+}
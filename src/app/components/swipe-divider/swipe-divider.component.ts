@@ -0,0 +1,22 @@
+import { Component, input, output } from '@angular/core';
+
+/**
+ * Draggable vertical divider laid over the map for swipe comparison. `position` is the
+ * divider's x as a fraction of the map width; A is shown to its left and B to its right.
+ */
+@Component({
+  selector: 'app-swipe-divider',
+  standalone: true,
+  templateUrl: './swipe-divider.component.html',
+  styleUrl: './swipe-divider.component.css'
+})
+export class SwipeDividerComponent {
+  readonly position = input(0.5);
+  readonly labelA = input('A');
+  readonly labelB = input('B');
+  readonly positionChange = output<number>();
+
+  onInput(event: Event): void {
+    this.positionChange.emit(Number((event.target as HTMLInputElement).value));
+  }
+}
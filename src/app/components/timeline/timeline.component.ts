@@ -0,0 +1,138 @@
+import { Component, DestroyRef, computed, inject, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { DateRange, PeriodGranularity, SurveyCity } from '../../models/survey-city';
+import {
+  buildPeriods,
+  dateInputToEnd,
+  dateInputToStart,
+  endToDateInput,
+  isOpenRange,
+  startToDateInput
+} from '../../utils/survey-period';
+import { uniqueId } from '../../utils/element-id';
+
+/** Delay between periods while playing (ms). */
+const PLAYBACK_INTERVAL_MS = 1200;
+
+/**
+ * Date-range filter plus a period-by-period playback scrubber.
+ * Emits the selected window; the parent decides what to filter.
+ */
+@Component({
+  selector: 'app-timeline',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './timeline.component.html',
+  styleUrl: './timeline.component.css'
+})
+export class TimelineComponent {
+  private readonly destroyRef = inject(DestroyRef);
+  readonly uid = uniqueId('timeline');
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /** Full (unfiltered) survey data; used to derive the period list. */
+  readonly data = input<SurveyCity[]>([]);
+  /** Currently applied window. */
+  readonly range = input<DateRange>({ start: null, end: null });
+  readonly rangeChange = output<DateRange>();
+
+  readonly granularity = signal<PeriodGranularity>('month');
+  readonly playing = signal(false);
+  /** Index into `periods()` when scrubbing; null when a free-form range is used. */
+  readonly periodIndex = signal<number | null>(null);
+
+  readonly granularityOptions: { value: PeriodGranularity; label: string }[] = [
+    { value: 'week', label: 'Weekly' },
+    { value: 'month', label: 'Monthly' },
+    { value: 'quarter', label: 'Quarterly' }
+  ];
+
+  readonly periods = computed(() => buildPeriods(this.data(), this.granularity()));
+
+  readonly currentPeriod = computed(() => {
+    const index = this.periodIndex();
+    return index === null ? null : (this.periods()[index] ?? null);
+  });
+
+  readonly fromValue = computed(() => startToDateInput(this.range().start));
+  readonly toValue = computed(() => endToDateInput(this.range().end));
+  readonly isFiltered = computed(() => !isOpenRange(this.range()));
+
+  constructor() {
+    this.destroyRef.onDestroy(() => this.stopTimer());
+  }
+
+  onFromChange(value: string): void {
+    this.pause();
+    this.periodIndex.set(null);
+    this.rangeChange.emit({ start: dateInputToStart(value), end: this.range().end });
+  }
+
+  onToChange(value: string): void {
+    this.pause();
+    this.periodIndex.set(null);
+    this.rangeChange.emit({ start: this.range().start, end: dateInputToEnd(value) });
+  }
+
+  onGranularityChange(value: PeriodGranularity): void {
+    this.granularity.set(value);
+    if (this.periodIndex() !== null) this.goToPeriod(0);
+  }
+
+  /** Jump to a period by index and apply it as the window. */
+  goToPeriod(index: number): void {
+    const periods = this.periods();
+    if (periods.length === 0) return;
+    const clamped = Math.max(0, Math.min(periods.length - 1, index));
+    const period = periods[clamped];
+    this.periodIndex.set(clamped);
+    this.rangeChange.emit({ start: period.start, end: period.end });
+  }
+
+  step(delta: number): void {
+    this.pause();
+    this.goToPeriod((this.periodIndex() ?? -1) + delta);
+  }
+
+  togglePlay(): void {
+    if (this.playing()) {
+      this.pause();
+      return;
+    }
+    const periods = this.periods();
+    if (periods.length === 0) return;
+    const index = this.periodIndex();
+    // Restart from the beginning when playback had reached the end.
+    this.goToPeriod(index === null || index >= periods.length - 1 ? 0 : index);
+    this.playing.set(true);
+    this.timer = setInterval(() => this.advance(), PLAYBACK_INTERVAL_MS);
+  }
+
+  pause(): void {
+    this.playing.set(false);
+    this.stopTimer();
+  }
+
+  /** Clear the window and show all survey data. */
+  reset(): void {
+    this.pause();
+    this.periodIndex.set(null);
+    this.rangeChange.emit({ start: null, end: null });
+  }
+
+  private advance(): void {
+    const next = (this.periodIndex() ?? -1) + 1;
+    if (next >= this.periods().length) {
+      this.pause();
+      return;
+    }
+    this.goToPeriod(next);
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
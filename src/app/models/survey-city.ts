@@ -8,17 +8,39 @@ export interface SurveyCity {
   latitude: number;
   longitude: number;
   nps: number;
-  /** 0–100; optional for backward compatibility (defaults used if missing). */
+  /** 0–100; optional, the row shows "no data" for CSAT when missing. */
   csat?: number;
-  /** 1–7; optional for backward compatibility (defaults used if missing). */
+  /** 1–7; optional, the row shows "no data" for CES when missing. */
   ces?: number;
   responseCount: number;
   /** ISO date string for time-based display (e.g. "2024-06-15T10:30:00Z"). */
   surveyDate?: string;
+  /** Raw per-score response counts; when present, rolled-up scores are rebuilt from these. */
+  distribution?: ResponseDistribution;
+  /** Segment tags such as `{ product: 'Mobile', channel: 'Web', tier: 'Gold' }`. */
+  dimensions?: Record<string, string>;
+  /** Extra numeric columns such as `{ revenueAtRisk: 12000 }`, read by field metrics. */
+  fields?: Record<string, number>;
 }
 
-/** Display type for map markers: circles, time labels, or area-colored regions. */
-export type DisplayType = 'circle' | 'time' | 'area';
+/**
+ * Response counts per score bucket; index 0 is the lowest score.
+ * NPS has 11 buckets (0–10), CSAT 5 (1–5) and CES 7 (1–7).
+ */
+export interface ResponseDistribution {
+  nps?: number[];
+  csat?: number[];
+  ces?: number[];
+}
+
+/**
+ * Display type for map markers: circles, time labels, area-colored regions, a density heatmap
+ * of the cities in view, or cities binned into score-colored hexagons.
+ */
+export type DisplayType = 'circle' | 'time' | 'area' | 'heatmap' | 'hexbin';
+
+/** What heatmap intensity measures: response volume or the share of detractors. */
+export type HeatWeight = 'responses' | 'detractors';
 
 /** Drill level for hierarchical view. */
 export type DrillLevel = 'country' | 'state' | 'city';
@@ -30,13 +52,216 @@ export interface SurveyAggregate {
   state?: string;
   latitude: number;
   longitude: number;
-  nps: number;
-  csat: number;
-  ces: number;
+  /** Scores over the responses that reported them; undefined when none did. */
+  nps?: number;
+  csat?: number;
+  ces?: number;
   responseCount: number;
+  /** Responses that reported each score, out of `responseCount`. */
+  coverage?: Partial<Record<SurveyMetric, number>>;
   surveyDate?: string;
   level: DrillLevel;
+  /** Summed bucket counts of the rows that reported a distribution. */
+  distribution?: ResponseDistribution;
+  /** 95% confidence per metric, where the sample allows an estimate. */
+  confidence?: Partial<Record<SurveyMetric, MetricConfidence>>;
+  /** Roll-ups of the rows' extra numeric `fields`. */
+  fields?: Record<string, FieldStats>;
+}
+
+/** One extra numeric field over a group of rows; `mean` is response-weighted. */
+export interface FieldStats {
+  /** Responses of the rows that had the field. */
+  responses: number;
+  /** Undefined when the rows have no responses to weight by. */
+  mean?: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+/** 95% margin of error and confidence interval for a score. */
+export interface MetricConfidence {
+  /** Half-width of the interval, in score points. */
+  moe: number;
+  low: number;
+  high: number;
+  /** Responses the estimate is based on. */
+  n: number;
 }
 
-/** Metric keys available for visualization. */
+/** How markers below the minimum sample size are drawn. */
+export type LowSampleTreatment = 'fade' | 'hatch' | 'hide';
+
+/** The survey scores every row carries, with raw response scales. */
 export type SurveyMetric = 'nps' | 'csat' | 'ces';
+
+/** Key of a metric in the metric registry: a survey score or a configured metric. */
+export type MetricKey = string;
+
+/** How a field metric combines rows: response-weighted mean, or the rows' sum, min or max. */
+export type MetricAggregation = 'mean' | 'sum' | 'min' | 'max';
+
+/** Other metrics' values, for formula metrics. */
+export interface MetricInputs {
+  value(metric: MetricKey): number | undefined;
+  definition(metric: MetricKey): MetricDefinition | undefined;
+}
+
+/**
+ * Where a metric's value comes from: a survey score, an extra numeric field of the rows, or a
+ * formula over other metrics. Formulas see a region's pooled inputs, so an index of a country
+ * is computed from the country's NPS, CSAT and CES rather than averaged over its cities.
+ */
+export type MetricSource =
+  | { kind: 'survey'; metric: SurveyMetric }
+  | { kind: 'field'; field: string; aggregation: MetricAggregation }
+  | { kind: 'formula'; compute: (inputs: MetricInputs) => number | undefined };
+
+/** A metric the map can show, as declared in the metric registry. */
+export interface MetricDefinition {
+  key: MetricKey;
+  /** Short name for selectors, legends and tooltips, e.g. "NPS". */
+  label: string;
+  /** Lowest and highest possible value. */
+  range: [number, number];
+  /** Decimal places shown. */
+  decimals: number;
+  source: MetricSource;
+  /**
+   * Default color scale; unset parts split the range into three equal bands, higher
+   * being better. Per-map color settings still override it.
+   */
+  thresholds?: Partial<MetricThresholds>;
+}
+
+/** Reads a metric from a row or aggregate; undefined when it has no value. */
+export type MetricValueFn = (item: SurveyAggregate | SurveyCity, metric: MetricKey) => number | undefined;
+
+/** Half-open date window [start, end) as ISO strings; null bounds are unrestricted. */
+export interface DateRange {
+  start: string | null;
+  end: string | null;
+}
+
+/** Step size for timeline playback. */
+export type PeriodGranularity = 'week' | 'month' | 'quarter';
+
+/** Comparison display: off, colored by change (difference) or the two subsets under a swipe divider. */
+export type CompareMode = 'off' | 'difference' | 'swipe';
+
+/** Selected values per dimension; a dimension that is absent or empty is not filtered. */
+export type SegmentFilter = Record<string, string[]>;
+
+/** One side of a comparison: a labelled subset of the survey rows. */
+export interface ComparisonSide {
+  label: string;
+  range: DateRange;
+  segments?: SegmentFilter;
+}
+
+/** Both sides of a comparison. */
+export interface ComparisonSides {
+  a: ComparisonSide;
+  b: ComparisonSide;
+}
+
+/** One step of the timeline (ISO bounds, end exclusive). */
+export interface SurveyPeriod {
+  key: string;
+  label: string;
+  start: string;
+  end: string;
+}
+
+/** What an alert rule tests: the score against a threshold, or its change since the previous period. */
+export type AlertCondition = 'below' | 'above' | 'drop' | 'rise';
+
+/** A saved alert, e.g. "CSAT below 60 with more than 100 responses" for any region. */
+export interface AlertRule {
+  id: string;
+  metric: MetricKey;
+  condition: AlertCondition;
+  /** The score for `below`/`above`; points of change for `drop`/`rise`. */
+  threshold: number;
+  /** Only regions with more responses than this are checked. */
+  minResponses: number;
+  /** Level the rule watches; `any` checks countries, states and cities. */
+  level: DrillLevel | 'any';
+}
+
+/** A region currently breaking an alert rule. */
+export interface AlertBreach {
+  rule: AlertRule;
+  /** `itemKey` of the region, for finding its markers. */
+  key: string;
+  label: string;
+  item: SurveyAggregate | SurveyCity;
+  value: number;
+  /** Change since the previous period, for `drop`/`rise` rules. */
+  change?: number;
+}
+
+/** A problem found while validating one incoming survey row. */
+export interface SurveyRowIssue {
+  /** 1-based row number in the source (header excluded for CSV). */
+  row: number;
+  /** Offending field, when the issue is tied to one. */
+  field?: string;
+  message: string;
+}
+
+/** Rows that passed validation plus everything that was rejected. */
+export interface SurveyValidationResult {
+  valid: SurveyCity[];
+  issues: SurveyRowIssue[];
+  /** Number of input rows that were dropped. */
+  rejected: number;
+}
+
+/** SurveyCity fields that can be mapped from an imported file's columns. */
+export type SurveyImportField =
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'latitude'
+  | 'longitude'
+  | 'nps'
+  | 'csat'
+  | 'ces'
+  | 'responseCount'
+  | 'surveyDate';
+
+/** Column index per field for an imported table; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<SurveyImportField, number>>;
+
+/** Header row plus data rows read from a CSV or spreadsheet, all cells as text. */
+export interface TabularData {
+  headers: string[];
+  rows: string[][];
+}
+
+/** How scores are mapped to colors: discrete threshold bands or a continuous ramp. */
+export type ColorScaleMode = 'bands' | 'sequential' | 'diverging';
+
+/** Built-in palettes; see `PALETTES` in `utils/color-scale.ts`. */
+export type PaletteId = 'traffic' | 'okabe-ito' | 'viridis' | 'purple-orange';
+
+/** Threshold and scale definition for one metric. */
+export interface MetricThresholds {
+  /** Ascending band boundaries; n cutoffs make n + 1 bands. */
+  cutoffs: number[];
+  /** False for metrics where a lower score is better (CES). */
+  higherIsBetter: boolean;
+  /** Score range spanned by the sequential and diverging scales. */
+  domain: [number, number];
+  /** Neutral point of the diverging scale. */
+  midpoint: number;
+}
+
+/** Palette, scale mode and per-metric thresholds used for every score color. */
+export interface ColorTheme {
+  palette: PaletteId;
+  mode: ColorScaleMode;
+  thresholds: Record<MetricKey, MetricThresholds>;
+}
@@ -0,0 +1,42 @@
+import { Injectable, signal } from '@angular/core';
+import { AlertRule } from '../models/survey-city';
+import { LocalStore } from '../utils/local-store';
+
+const CONDITIONS = ['below', 'above', 'drop', 'rise'];
+const LEVELS = ['any', 'country', 'state', 'city'];
+
+/** Alert rules, saved in this browser's local storage. */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertRulesService {
+  private readonly store = new LocalStore('survey-map.alert-rules', isAlertRule);
+  readonly rules = signal<AlertRule[]>(this.store.load());
+
+  add(rule: Omit<AlertRule, 'id'>): void {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.save([...this.rules(), { ...rule, id }]);
+  }
+
+  remove(id: string): void {
+    this.save(this.rules().filter((r) => r.id !== id));
+  }
+
+  private save(rules: AlertRule[]): void {
+    this.rules.set(rules);
+    this.store.save(rules);
+  }
+}
+
+function isAlertRule(value: unknown): value is AlertRule {
+  const r = value as Partial<AlertRule> | null;
+  return (
+    !!r &&
+    typeof r.id === 'string' &&
+    typeof r.metric === 'string' &&
+    CONDITIONS.includes(r.condition as string) &&
+    LEVELS.includes(r.level as string) &&
+    Number.isFinite(r.threshold) &&
+    Number.isFinite(r.minResponses)
+  );
+}
@@ -0,0 +1,124 @@
+import { Injectable, InjectionToken, Provider, inject, signal } from '@angular/core';
+import { ColorScaleMode, ColorTheme, MetricKey, MetricThresholds, PaletteId } from '../models/survey-city';
+import {
+  DEFAULT_COLOR_THEME,
+  LegendScale,
+  colorForValue,
+  deltaColor,
+  deltaLegend,
+  heatGradient,
+  heatLegend,
+  legendForMetric
+} from '../utils/color-scale';
+import { MetricRegistry } from './metric-registry';
+
+/**
+ * Initial color theme. Defaults to the standard traffic-light bands with each registered
+ * metric's own scale over them; override per deployment (e.g. a business unit with its own
+ * NPS target) with `provideColorTheme(...)`. A theme provided here wins over the registry.
+ */
+export const COLOR_THEME = new InjectionToken<ColorTheme>('COLOR_THEME', {
+  providedIn: 'root',
+  factory: () => metricsColorTheme(inject(MetricRegistry))
+});
+
+/** The default theme with the registered metrics' thresholds over its own. */
+function metricsColorTheme(metrics: MetricRegistry): ColorTheme {
+  return {
+    ...DEFAULT_COLOR_THEME,
+    thresholds: { ...DEFAULT_COLOR_THEME.thresholds, ...metrics.thresholds() }
+  };
+}
+
+/** Theme overrides; thresholds are merged per metric over the defaults. */
+export interface ColorThemeOverrides {
+  palette?: PaletteId;
+  mode?: ColorScaleMode;
+  thresholds?: Partial<Record<MetricKey, Partial<MetricThresholds>>>;
+}
+
+/** Merge overrides over a base theme. */
+export function mergeColorTheme(base: ColorTheme, overrides: ColorThemeOverrides): ColorTheme {
+  const thresholds = { ...base.thresholds };
+  for (const metric of Object.keys(overrides.thresholds ?? {})) {
+    thresholds[metric] = { ...thresholds[metric], ...overrides.thresholds![metric] };
+  }
+  return {
+    palette: overrides.palette ?? base.palette,
+    mode: overrides.mode ?? base.mode,
+    thresholds
+  };
+}
+
+/**
+ * Start from the default theme and registered metrics with the given overrides. Add to the
+ * application providers.
+ */
+export function provideColorTheme(overrides: ColorThemeOverrides): Provider[] {
+  return [
+    {
+      provide: COLOR_THEME,
+      useFactory: () => mergeColorTheme(metricsColorTheme(inject(MetricRegistry)), overrides)
+    }
+  ];
+}
+
+/**
+ * The single source of score colors: markers, choropleths and the legend all read the
+ * current theme from here, so changing a threshold or palette restyles everything at once.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ColorThemeService {
+  private readonly metrics = inject(MetricRegistry);
+  private readonly provided = inject(COLOR_THEME);
+  /** The provided theme; registered metrics it has no thresholds for keep their own scale. */
+  private readonly base: ColorTheme = {
+    ...this.provided,
+    thresholds: { ...this.metrics.thresholds(), ...this.provided.thresholds }
+  };
+  private initial = this.base;
+
+  readonly theme = signal<ColorTheme>(this.initial);
+
+  colorFor(metric: MetricKey, value: number | undefined): string {
+    return colorForValue(this.theme(), metric, value);
+  }
+
+  legendFor(metric: MetricKey): LegendScale {
+    return legendForMetric(this.theme(), metric, this.metrics.decimals(metric));
+  }
+
+  /** Diverging color for a change in score; `maxAbs` is the largest change on the map. */
+  deltaColorFor(metric: MetricKey, delta: number | undefined, maxAbs: number): string {
+    return deltaColor(this.theme(), metric, delta, maxAbs);
+  }
+
+  deltaLegendFor(metric: MetricKey, maxAbs: number): LegendScale {
+    return deltaLegend(this.theme(), metric, maxAbs, this.metrics.decimals(metric));
+  }
+
+  heatGradient(): string[] {
+    return heatGradient(this.theme());
+  }
+
+  heatLegend(): LegendScale {
+    return heatLegend(this.theme());
+  }
+
+  update(overrides: ColorThemeOverrides): void {
+    this.theme.update((theme) => mergeColorTheme(theme, overrides));
+  }
+
+  /** Replace the configured theme with `overrides` over the provided one (e.g. a widget input). */
+  configure(overrides: ColorThemeOverrides): void {
+    this.initial = mergeColorTheme(this.base, overrides);
+    this.theme.set(this.initial);
+  }
+
+  /** Back to the configured (not built-in) theme. */
+  reset(): void {
+    this.theme.set(this.initial);
+  }
+}
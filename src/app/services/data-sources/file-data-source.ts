@@ -0,0 +1,51 @@
+import { Observable } from 'rxjs';
+import { parseCsv } from '../../utils/csv';
+import { applyColumnMapping, guessColumnMapping } from '../../utils/column-mapping';
+import type { SurveyDataSource } from './survey-data-source';
+
+/** True when the file should be parsed as JSON rather than CSV. */
+function isJsonFile(file: File): boolean {
+  return file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+}
+
+/**
+ * Survey rows from a user-uploaded CSV or JSON file.
+ * JSON must be an array of row objects; CSV must have a header row.
+ */
+export class FileDataSource implements SurveyDataSource {
+  constructor(private readonly file: File) {}
+
+  get label(): string {
+    return this.file.name;
+  }
+
+  load(): Observable<unknown[]> {
+    return new Observable<unknown[]>((subscriber) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          subscriber.next(this.parse(String(reader.result ?? '')));
+          subscriber.complete();
+        } catch (err) {
+          subscriber.error(err);
+        }
+      };
+      reader.onerror = () => subscriber.error(reader.error ?? new Error(`Could not read ${this.file.name}`));
+      reader.readAsText(this.file);
+      return () => {
+        if (reader.readyState === FileReader.LOADING) reader.abort();
+      };
+    });
+  }
+
+  private parse(text: string): unknown[] {
+    if (isJsonFile(this.file)) {
+      const parsed: unknown = JSON.parse(text);
+      if (!Array.isArray(parsed)) throw new Error(`${this.file.name} must contain a JSON array of rows`);
+      return parsed;
+    }
+    // Headers such as `Response Count` or `lat` are matched to SurveyCity fields.
+    const [headers = [], ...rows] = parseCsv(text);
+    return applyColumnMapping({ headers, rows }, guessColumnMapping(headers));
+  }
+}
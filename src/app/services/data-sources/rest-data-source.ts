@@ -0,0 +1,104 @@
+import { Inject, Injectable, InjectionToken, Provider } from '@angular/core';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { EMPTY, Observable, expand, map, reduce } from 'rxjs';
+import { SURVEY_DATA_SOURCE, SurveyDataSource } from './survey-data-source';
+
+/** Settings for a REST survey endpoint. */
+export interface RestDataSourceConfig {
+  /** Endpoint returning either an array of rows or a page object. */
+  url: string;
+  /** Extra request headers; a function is re-evaluated per request (e.g. for refreshed tokens). */
+  headers?: Record<string, string> | (() => Record<string, string>);
+  /** When set, pages are requested with page/size query params until a short page is returned. */
+  pageSize?: number;
+  /** Query param for the page number (default `page`). */
+  pageParam?: string;
+  /** Query param for the page size (default `pageSize`). */
+  pageSizeParam?: string;
+  /** Number of the first page (default 1). */
+  firstPage?: number;
+  /** Key holding the rows when the response is an object (default `items`). */
+  itemsKey?: string;
+  /** Key holding an absolute next-page URL when the response is an object (default `next`). */
+  nextKey?: string;
+  /** Safety cap on pages fetched per load (default 1000). */
+  maxPages?: number;
+}
+
+export const REST_DATA_SOURCE_CONFIG = new InjectionToken<RestDataSourceConfig>('REST_DATA_SOURCE_CONFIG');
+
+/** One fetched page and where to go next. */
+interface RestPage {
+  items: unknown[];
+  index: number;
+  next: { url: string; page: number | null } | null;
+}
+
+/** Loads survey rows from a configurable REST endpoint, following pagination. */
+@Injectable()
+export class RestDataSource implements SurveyDataSource {
+  constructor(
+    private readonly http: HttpClient,
+    @Inject(REST_DATA_SOURCE_CONFIG) private readonly config: RestDataSourceConfig
+  ) {}
+
+  get label(): string {
+    return this.config.url;
+  }
+
+  load(): Observable<unknown[]> {
+    const maxPages = this.config.maxPages ?? 1000;
+    const firstPage = this.config.firstPage ?? 1;
+    return this.fetchPage(this.config.url, firstPage, 0).pipe(
+      expand((page) =>
+        page.next && page.index + 1 < maxPages ? this.fetchPage(page.next.url, page.next.page, page.index + 1) : EMPTY
+      ),
+      reduce((all, page) => all.concat(page.items), [] as unknown[])
+    );
+  }
+
+  /** Fetch one page; `page` is null when following a server-provided next link. */
+  private fetchPage(url: string, page: number | null, index: number): Observable<RestPage> {
+    const { pageSize, pageParam = 'page', pageSizeParam = 'pageSize' } = this.config;
+    let params = new HttpParams();
+    if (pageSize && page !== null) {
+      params = params.set(pageParam, page).set(pageSizeParam, pageSize);
+    }
+    return this.http.get<unknown>(url, { headers: this.headers(), params }).pipe(
+      map((body) => this.toPage(body, page, index))
+    );
+  }
+
+  private toPage(body: unknown, page: number | null, index: number): RestPage {
+    const { itemsKey = 'items', nextKey = 'next', pageSize } = this.config;
+    if (Array.isArray(body)) {
+      const hasMore = !!pageSize && page !== null && body.length === pageSize;
+      return { items: body, index, next: hasMore ? { url: this.config.url, page: page! + 1 } : null };
+    }
+    const obj = (body ?? {}) as Record<string, unknown>;
+    const rawItems = obj[itemsKey];
+    if (!Array.isArray(rawItems)) {
+      throw new Error(`Survey endpoint response has no "${itemsKey}" array`);
+    }
+    const nextUrl = obj[nextKey];
+    if (typeof nextUrl === 'string' && nextUrl) {
+      return { items: rawItems, index, next: { url: nextUrl, page: null } };
+    }
+    const hasMore = !!pageSize && page !== null && rawItems.length === pageSize;
+    return { items: rawItems, index, next: hasMore ? { url: this.config.url, page: page! + 1 } : null };
+  }
+
+  private headers(): HttpHeaders {
+    const h = this.config.headers;
+    return new HttpHeaders(typeof h === 'function' ? h() : (h ?? {}));
+  }
+}
+
+/** Use a REST endpoint as the survey data source. Add to the application providers. */
+export function provideRestSurveyDataSource(config: RestDataSourceConfig): Provider[] {
+  return [
+    { provide: REST_DATA_SOURCE_CONFIG, useValue: config },
+    RestDataSource,
+    { provide: SURVEY_DATA_SOURCE, useExisting: RestDataSource }
+  ];
+}
@@ -0,0 +1,14 @@
+import { Observable, of } from 'rxjs';
+import type { SurveyDataSource } from './survey-data-source';
+
+/** Rows already held in memory, e.g. the output of the import wizard. */
+export class RowsDataSource implements SurveyDataSource {
+  constructor(
+    private readonly rows: unknown[],
+    readonly label: string
+  ) {}
+
+  load(): Observable<unknown[]> {
+    return of(this.rows);
+  }
+}
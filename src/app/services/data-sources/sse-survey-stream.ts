@@ -0,0 +1,40 @@
+import { Provider } from '@angular/core';
+import { Observable } from 'rxjs';
+import { SURVEY_STREAM, SurveyStream, parseStreamMessage } from './survey-stream';
+
+/**
+ * Rows pushed as Server-Sent Events. Each `message` event carries JSON (see
+ * `parseStreamMessage`); the browser reconnects on its own after transient drops.
+ */
+export class SseSurveyStream implements SurveyStream {
+  constructor(readonly url: string) {}
+
+  get label(): string {
+    return this.url;
+  }
+
+  connect(): Observable<unknown[]> {
+    return new Observable<unknown[]>((subscriber) => {
+      const source = new EventSource(this.url);
+      source.onopen = () => subscriber.next([]);
+      source.onmessage = (event: MessageEvent<string>) => {
+        try {
+          subscriber.next(parseStreamMessage(event.data));
+        } catch {
+          // A malformed message is skipped; the stream stays open.
+        }
+      };
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          subscriber.error(new Error(`Stream ${this.url} closed`));
+        }
+      };
+      return () => source.close();
+    });
+  }
+}
+
+/** Stream rows from an SSE endpoint. Add to the application providers. */
+export function provideSseSurveyStream(url: string): Provider[] {
+  return [{ provide: SURVEY_STREAM, useValue: new SseSurveyStream(url) }];
+}
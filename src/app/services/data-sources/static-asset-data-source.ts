@@ -0,0 +1,21 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import type { SurveyDataSource } from './survey-data-source';
+
+/** Path to static survey data in assets. */
+const DATA_URL = 'assets/data.json';
+
+/** Loads survey data from the static JSON bundled with the app. No backend required. */
+@Injectable({
+  providedIn: 'root'
+})
+export class StaticAssetDataSource implements SurveyDataSource {
+  readonly label = DATA_URL;
+
+  constructor(private readonly http: HttpClient) {}
+
+  load(): Observable<unknown[]> {
+    return this.http.get<unknown[]>(DATA_URL);
+  }
+}
@@ -0,0 +1,23 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { StaticAssetDataSource } from './static-asset-data-source';
+
+/**
+ * Where survey rows come from. Implementations emit raw, unvalidated rows;
+ * `MapDataService` validates them before anything is plotted.
+ * A source may emit more than once (e.g. each time a new file is uploaded).
+ */
+export interface SurveyDataSource {
+  /** Short human-readable description for status messages. */
+  readonly label: string;
+  load(): Observable<unknown[]>;
+}
+
+/**
+ * The active survey data source. Defaults to the bundled static asset;
+ * override in `app.config.ts`, e.g. with `provideRestSurveyDataSource(...)`.
+ */
+export const SURVEY_DATA_SOURCE = new InjectionToken<SurveyDataSource>('SURVEY_DATA_SOURCE', {
+  providedIn: 'root',
+  factory: () => inject(StaticAssetDataSource)
+});
@@ -0,0 +1,29 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+
+/**
+ * Push feed of new or revised survey rows. Each emission is one raw, unvalidated batch;
+ * `MapDataService` validates it and merges it into the loaded data. An empty batch is
+ * emitted whenever the connection opens, so status can be reported before the first row.
+ */
+export interface SurveyStream {
+  /** Short human-readable description for status messages. */
+  readonly label: string;
+  connect(): Observable<unknown[]>;
+}
+
+/** The active survey stream; none by default. Set it with `provideSseSurveyStream(...)` etc. */
+export const SURVEY_STREAM = new InjectionToken<SurveyStream | null>('SURVEY_STREAM', {
+  providedIn: 'root',
+  factory: () => null
+});
+
+/** Rows in one message: a JSON row, an array of rows, or `{ "rows": [...] }`. */
+export function parseStreamMessage(data: string): unknown[] {
+  const parsed: unknown = JSON.parse(data);
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { rows?: unknown }).rows)) {
+    return (parsed as { rows: unknown[] }).rows;
+  }
+  return [parsed];
+}
@@ -0,0 +1,38 @@
+import { Provider } from '@angular/core';
+import { Observable } from 'rxjs';
+import { SURVEY_STREAM, SurveyStream, parseStreamMessage } from './survey-stream';
+
+/** Rows pushed over a WebSocket, one JSON message per batch (see `parseStreamMessage`). */
+export class WebSocketSurveyStream implements SurveyStream {
+  constructor(readonly url: string) {}
+
+  get label(): string {
+    return this.url;
+  }
+
+  connect(): Observable<unknown[]> {
+    return new Observable<unknown[]>((subscriber) => {
+      const socket = new WebSocket(this.url);
+      socket.onopen = () => subscriber.next([]);
+      socket.onmessage = (event: MessageEvent) => {
+        if (typeof event.data !== 'string') return;
+        try {
+          subscriber.next(parseStreamMessage(event.data));
+        } catch {
+          // A malformed message is skipped; the socket stays open.
+        }
+      };
+      socket.onclose = (event) =>
+        subscriber.error(new Error(`Stream ${this.url} closed (${event.code})`));
+      return () => {
+        socket.onclose = null;
+        socket.close();
+      };
+    });
+  }
+}
+
+/** Stream rows from a WebSocket endpoint. Add to the application providers. */
+export function provideWebSocketSurveyStream(url: string): Provider[] {
+  return [{ provide: SURVEY_STREAM, useValue: new WebSocketSurveyStream(url) }];
+}
@@ -1,39 +1,49 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, map, shareReplay } from 'rxjs';
+import { Observable, forkJoin, map, shareReplay } from 'rxjs';
 import * as topojson from 'topojson-client';
-import type { FeatureCollection } from 'geojson';
+import type { Feature, FeatureCollection } from 'geojson';
+import { CountryResolver } from './geocoding/country-resolver';
+import { GeocodingService } from './geocoding/geocoding.service';
+import { MAP_PROVIDERS, MapProvidersConfig } from './map-providers';
 
-const WORLD_ATLAS_URL = 'https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json';
-
-/** Map survey country names to world-atlas TopoJSON feature property names. */
-export const COUNTRY_NAME_TO_GEO: Record<string, string> = {
-  USA: 'United States of America',
-  UK: 'United Kingdom',
-  UAE: 'United Arab Emirates',
-  'Czech Republic': 'Czechia',
-  'South Korea': 'South Korea',
-  Russia: 'Russia',
-  Vietnam: 'Vietnam',
-  Taiwan: 'Taiwan'
-};
+/**
+ * Key used to match a survey country to a world-atlas feature: the ISO numeric code
+ * (world-atlas feature ids) when the name resolves, otherwise the name itself.
+ */
+export function countryFeatureKey(countries: CountryResolver, surveyCountry: string): string {
+  return countries.resolve(surveyCountry)?.numeric || surveyCountry;
+}
 
-/** Get GeoJSON country name from our survey country name. */
-export function geoNameForCountry(surveyCountry: string): string {
-  return COUNTRY_NAME_TO_GEO[surveyCountry] ?? surveyCountry;
+/** Candidate keys for a world-atlas country feature, in lookup order. */
+export function featureKeys(feature: Feature): string[] {
+  const keys: string[] = [];
+  if (feature.id !== undefined && feature.id !== null) keys.push(String(feature.id));
+  const name = feature.properties?.['name'];
+  if (typeof name === 'string') keys.push(name);
+  return keys;
 }
 
+type Topology = { objects: Record<string, unknown> };
+
 @Injectable({
   providedIn: 'root'
 })
 export class GeoService {
   private geoJson$: Observable<FeatureCollection> | null = null;
+  private admin1$: Observable<Topology> | null = null;
 
-  constructor(private readonly http: HttpClient) {}
+  constructor(
+    private readonly http: HttpClient,
+    private readonly geocoding: GeocodingService,
+    @Inject(MAP_PROVIDERS) private readonly providers: MapProvidersConfig
+  ) {}
 
+  /** World country polygons from the configured boundary source (bundled by default). */
   getCountriesGeoJson(): Observable<FeatureCollection> {
     if (!this.geoJson$) {
-      this.geoJson$ = this.http.get<{ objects: { countries: unknown } }>(WORLD_ATLAS_URL).pipe(
+      const url = this.providers.boundaries.countries;
+      this.geoJson$ = this.http.get<{ objects: { countries: unknown } }>(url).pipe(
         map((topology) => {
           const countries = topology.objects.countries;
           return (topojson as { feature: (t: unknown, o: unknown) => FeatureCollection }).feature(
@@ -46,4 +56,22 @@ export class GeoService {
     }
     return this.geoJson$;
   }
+
+  /**
+   * State/province polygons for a survey country from the admin-1 boundary source, whose
+   * objects are keyed by ISO alpha-3 code. Emits null when the country has no object there.
+   */
+  getStatesGeoJson(surveyCountry: string): Observable<FeatureCollection | null> {
+    if (!this.admin1$) {
+      this.admin1$ = this.http.get<Topology>(this.providers.boundaries.admin1).pipe(shareReplay(1));
+    }
+    return forkJoin([this.admin1$, this.geocoding.countries()]).pipe(
+      map(([topology, countries]) => {
+        const key = countries.resolve(surveyCountry)?.iso3;
+        const object = key ? topology.objects[key] : undefined;
+        if (!object) return null;
+        return topojson.feature(topology, object);
+      })
+    );
+  }
 }
@@ -0,0 +1,39 @@
+import { CountryRecord, CountryResolver } from './country-resolver';
+
+function country(name: string, iso2: string, iso3: string, aliases: string[] = []): CountryRecord {
+  return { name, iso2, iso3, numeric: '000', lat: 0, lng: 0, aliases };
+}
+
+const COUNTRIES: CountryRecord[] = [
+  country('United States', 'US', 'USA', ['United States of America', 'America']),
+  country('United Kingdom', 'GB', 'GBR', ['UK', 'Great Britain']),
+  country('Côte d’Ivoire', 'CI', 'CIV', ['Ivory Coast']),
+  country('Germany', 'DE', 'DEU')
+];
+
+describe('CountryResolver', () => {
+  const resolver = new CountryResolver(COUNTRIES);
+
+  it('resolves names, aliases and ISO codes', () => {
+    expect(resolver.resolve('United States')?.iso2).toBe('US');
+    expect(resolver.resolve('U.S.A.')?.iso2).toBe('US');
+    expect(resolver.resolve('uk')?.iso3).toBe('GBR');
+    expect(resolver.resolve('DEU')?.name).toBe('Germany');
+  });
+
+  it('ignores accents and punctuation', () => {
+    expect(resolver.resolve('Cote dIvoire')?.iso2).toBe('CI');
+  });
+
+  it('matches misspelled names', () => {
+    expect(resolver.resolve('Germanny')?.iso2).toBe('DE');
+    expect(resolver.resolve('Untied Kingdom')?.iso2).toBe('GB');
+  });
+
+  it('does not guess short codes or distant names', () => {
+    expect(resolver.resolve('DEX')).toBeNull();
+    expect(resolver.resolve('Atlantis')).toBeNull();
+    expect(resolver.resolve('')).toBeNull();
+    expect(resolver.resolve(null)).toBeNull();
+  });
+});
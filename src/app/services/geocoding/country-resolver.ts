@@ -0,0 +1,61 @@
+import { nameSimilarity, normalizePlaceName } from '../../utils/place-name';
+
+/** One entry of `assets/geo/countries.json`, the ISO 3166-1 table with common aliases. */
+export interface CountryRecord {
+  /** Common English name. */
+  name: string;
+  iso2: string;
+  iso3: string;
+  /** ISO numeric code as a zero-padded string; matches world-atlas feature ids. */
+  numeric: string;
+  lat: number;
+  lng: number;
+  aliases: string[];
+}
+
+/** Minimum similarity for a fuzzy country-name match. */
+const FUZZY_THRESHOLD = 0.8;
+
+/** In-memory lookup over the bundled country table. */
+export class CountryResolver {
+  /** Normalized name, alias and ISO code → country. */
+  private readonly index = new Map<string, CountryRecord>();
+  private readonly fuzzyCache = new Map<string, CountryRecord | null>();
+
+  constructor(countries: CountryRecord[]) {
+    for (const country of countries) {
+      for (const key of [country.name, ...country.aliases, country.iso2, country.iso3]) {
+        const normalized = normalizePlaceName(key);
+        if (normalized && !this.index.has(normalized)) this.index.set(normalized, country);
+      }
+    }
+  }
+
+  /**
+   * Resolve a free-text country (name, alias such as "UK"/"USA", or ISO alpha-2/alpha-3 code)
+   * to its ISO record. Falls back to a fuzzy match for misspellings; null when nothing is close.
+   */
+  resolve(name: string | null | undefined): CountryRecord | null {
+    if (!name) return null;
+    const key = normalizePlaceName(name);
+    if (!key) return null;
+    const exact = this.index.get(key);
+    if (exact) return exact;
+    if (this.fuzzyCache.has(key)) return this.fuzzyCache.get(key)!;
+
+    let best: CountryRecord | null = null;
+    let bestScore = 0;
+    if (key.length > 3) {
+      for (const [candidate, country] of this.index) {
+        if (candidate.length <= 3) continue;
+        const score = nameSimilarity(key, candidate);
+        if (score >= FUZZY_THRESHOLD && score > bestScore) {
+          best = country;
+          bestScore = score;
+        }
+      }
+    }
+    this.fuzzyCache.set(key, best);
+    return best;
+  }
+}
@@ -0,0 +1,50 @@
+import { GazetteerAsset, GazetteerIndex } from './gazetteer';
+
+const ASSET: GazetteerAsset = {
+  fields: ['name', 'iso2', 'admin1', 'lat', 'lng', 'population'],
+  cities: [
+    ['Portland', 'US', 'Oregon', 45.52, -122.68, 650000],
+    ['Portland', 'US', 'Maine', 43.66, -70.26, 68000],
+    ['Mumbai', 'IN', 'Maharashtra', 19.07, 72.88, 12000000],
+    ['Hong Kong', 'HK', 'Hong Kong', 22.28, 114.16, 7500000],
+    ['São Paulo', 'BR', 'São Paulo', -23.55, -46.63, 12000000]
+  ],
+  aliases: [['Bombay', 'Mumbai', 'IN']]
+};
+
+describe('GazetteerIndex', () => {
+  const index = new GazetteerIndex(ASSET);
+
+  it('prefers the larger city when a name is ambiguous', () => {
+    expect(index.match('Portland', 'US')).toMatchObject({ admin1: 'Oregon', score: 1 });
+  });
+
+  it('uses the state hint to pick between namesakes', () => {
+    expect(index.match('Portland', 'US', 'Maine')?.latitude).toBe(43.66);
+    expect(index.match('Portland', 'US', 'Main')?.admin1).toBe('Maine');
+  });
+
+  it('matches names regardless of accents', () => {
+    expect(index.match('Sao Paulo', 'BR')?.name).toBe('São Paulo');
+  });
+
+  it('resolves aliases as exact matches', () => {
+    expect(index.match('Bombay', 'IN')).toMatchObject({ name: 'Mumbai', score: 1 });
+  });
+
+  it('scores fuzzy matches below one', () => {
+    const match = index.match('Mumbay', 'IN');
+    expect(match?.name).toBe('Mumbai');
+    expect(match?.score).toBeLessThan(1);
+  });
+
+  it('accepts an exact match filed under another country', () => {
+    expect(index.match('Hong Kong', 'CN')?.countryIso2).toBe('HK');
+    expect(index.match('Hong Kongg', 'CN')).toBeNull();
+  });
+
+  it('returns null when nothing is close', () => {
+    expect(index.match('Springfield', 'US')).toBeNull();
+    expect(index.match('', null)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { nameSimilarity, normalizePlaceName } from '../../utils/place-name';
+
+/** Shape of `assets/geo/gazetteer.json`. Cities are `[name, iso2, admin1, lat, lng, population]`. */
+export interface GazetteerAsset {
+  fields: string[];
+  cities: [string, string, string, number, number, number][];
+  /** `[alias, gazetteer name, iso2]`, e.g. `['Bombay', 'Mumbai', 'IN']`. */
+  aliases: [string, string, string][];
+}
+
+export interface GazetteerCity {
+  name: string;
+  key: string;
+  countryIso2: string;
+  admin1: string;
+  admin1Key: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+/** A resolved place; `score` is 1 for an exact (or alias) name match. */
+export interface GeocodeMatch {
+  name: string;
+  admin1: string;
+  countryIso2: string;
+  latitude: number;
+  longitude: number;
+  score: number;
+}
+
+/** Minimum name similarity for a fuzzy city match. */
+const FUZZY_THRESHOLD = 0.8;
+/** Minimum similarity for a state hint to count as agreeing with a candidate's admin-1. */
+const STATE_THRESHOLD = 0.8;
+
+/** In-memory lookup over the bundled gazetteer. */
+export class GazetteerIndex {
+  private readonly byName = new Map<string, GazetteerCity[]>();
+  private readonly byCountry = new Map<string, GazetteerCity[]>();
+  private readonly all: GazetteerCity[] = [];
+  private readonly aliases = new Map<string, { key: string; countryIso2: string }[]>();
+
+  constructor(asset: GazetteerAsset) {
+    for (const [name, countryIso2, admin1, latitude, longitude, population] of asset.cities) {
+      const city: GazetteerCity = {
+        name,
+        key: normalizePlaceName(name),
+        countryIso2,
+        admin1,
+        admin1Key: normalizePlaceName(admin1),
+        latitude,
+        longitude,
+        population
+      };
+      this.all.push(city);
+      push(this.byName, city.key, city);
+      push(this.byCountry, countryIso2, city);
+    }
+    for (const [alias, target, countryIso2] of asset.aliases ?? []) {
+      push(this.aliases, normalizePlaceName(alias), { key: normalizePlaceName(target), countryIso2 });
+    }
+  }
+
+  /**
+   * Find the best city for a name, optionally scoped to a country (ISO alpha-2) and
+   * disambiguated by a state/province hint. Exact and alias matches win over fuzzy ones;
+   * ties go to the larger population. When nothing matches inside the country, an exact
+   * match elsewhere is accepted (e.g. "Hong Kong, China" where GeoNames files it under HK).
+   */
+  match(city: string, countryIso2: string | null, state?: string): GeocodeMatch | null {
+    const key = normalizePlaceName(city);
+    if (!key) return null;
+    const found = this.matchIn(key, countryIso2, state);
+    if (found || !countryIso2) return found;
+    const elsewhere = this.matchIn(key, null, state);
+    return elsewhere?.score === 1 ? elsewhere : null;
+  }
+
+  private matchIn(key: string, countryIso2: string | null, state?: string): GeocodeMatch | null {
+    const inCountry = (c: { countryIso2: string }) => !countryIso2 || c.countryIso2 === countryIso2;
+
+    let scored: { city: GazetteerCity; score: number }[] = (this.byName.get(key) ?? [])
+      .filter(inCountry)
+      .map((c) => ({ city: c, score: 1 }));
+
+    if (scored.length === 0) {
+      for (const alias of (this.aliases.get(key) ?? []).filter(inCountry)) {
+        for (const c of this.byName.get(alias.key) ?? []) {
+          if (c.countryIso2 === alias.countryIso2) scored.push({ city: c, score: 1 });
+        }
+      }
+    }
+
+    if (scored.length === 0) {
+      const pool = countryIso2 ? (this.byCountry.get(countryIso2) ?? []) : this.all;
+      for (const c of pool) {
+        const score = nameSimilarity(key, c.key);
+        if (score >= FUZZY_THRESHOLD) scored.push({ city: c, score });
+      }
+    }
+
+    const stateKey = state ? normalizePlaceName(state) : '';
+    if (stateKey) {
+      const inState = scored.filter((s) => nameSimilarity(stateKey, s.city.admin1Key) >= STATE_THRESHOLD);
+      if (inState.length > 0) scored = inState;
+    }
+
+    scored.sort((a, b) => b.score - a.score || b.city.population - a.city.population);
+    const best = scored[0];
+    if (!best) return null;
+    const { name, admin1, latitude, longitude } = best.city;
+    return { name, admin1, countryIso2: best.city.countryIso2, latitude, longitude, score: best.score };
+  }
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
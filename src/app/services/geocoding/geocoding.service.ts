@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, forkJoin, map, of, shareReplay } from 'rxjs';
+import { GazetteerAsset, GazetteerIndex, GeocodeMatch } from './gazetteer';
+import { CountryRecord, CountryResolver } from './country-resolver';
+import { toNumber } from '../../utils/survey-validation';
+
+/** Offline city gazetteer (GeoNames cities with population ≥ 50k plus capitals). */
+const GAZETTEER_URL = 'assets/geo/gazetteer.json';
+/** ISO 3166-1 country table with common aliases. */
+const COUNTRIES_URL = 'assets/geo/countries.json';
+
+/** Place names to look up. */
+export interface GeocodeQuery {
+  city: string;
+  state?: string;
+  country?: string;
+}
+
+/** A row whose coordinates could not be filled in. */
+export interface UnresolvedPlace {
+  /** 1-based row number. */
+  row: number;
+  place: string;
+  reason: string;
+}
+
+export interface GeocodeRowsResult {
+  /** Input rows, with latitude/longitude filled in where a match was found. */
+  rows: unknown[];
+  resolved: number;
+  unresolved: UnresolvedPlace[];
+}
+
+/**
+ * Resolves city/state/country names to coordinates against the bundled offline
+ * gazetteer, and country names to ISO records. Each asset is only fetched when
+ * something needs resolving, and results are cached per query.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GeocodingService {
+  private index$: Observable<GazetteerIndex> | null = null;
+  private countries$: Observable<CountryResolver> | null = null;
+  private readonly cache = new Map<string, GeocodeMatch | null>();
+
+  constructor(private readonly http: HttpClient) {}
+
+  /** Resolve one place; emits null when it cannot be located. */
+  geocode(query: GeocodeQuery): Observable<GeocodeMatch | null> {
+    return forkJoin([this.gazetteer(), this.countries()]).pipe(
+      map(([index, countries]) => this.lookup(index, countries, query).match)
+    );
+  }
+
+  /** Country resolver over the bundled country table; fetched once, on first use. */
+  countries(): Observable<CountryResolver> {
+    if (!this.countries$) {
+      this.countries$ = this.http.get<CountryRecord[]>(COUNTRIES_URL).pipe(
+        map((countries) => new CountryResolver(countries)),
+        shareReplay(1)
+      );
+    }
+    return this.countries$;
+  }
+
+  /**
+   * Fill in latitude/longitude for rows that have a city but no coordinates.
+   * Rows that already have coordinates are left untouched; the gazetteer is not
+   * loaded at all when every row has them.
+   */
+  fillCoordinates(rows: unknown[]): Observable<GeocodeRowsResult> {
+    const pending = rows
+      .map((raw, i) => ({ raw, row: i + 1 }))
+      .filter(({ raw }) => needsCoordinates(raw));
+    if (pending.length === 0) return of({ rows, resolved: 0, unresolved: [] });
+
+    return forkJoin([this.gazetteer(), this.countries()]).pipe(
+      map(([index, countries]) => {
+        const out = rows.slice();
+        const unresolved: UnresolvedPlace[] = [];
+        for (const { raw, row } of pending) {
+          const r = raw as Record<string, unknown>;
+          const query: GeocodeQuery = {
+            city: text(r['city']),
+            state: text(r['state']) || undefined,
+            country: text(r['country']) || undefined
+          };
+          const { match, reason } = this.lookup(index, countries, query);
+          if (match) {
+            out[row - 1] = { ...r, latitude: match.latitude, longitude: match.longitude };
+          } else {
+            unresolved.push({ row, place: describe(query), reason });
+          }
+        }
+        return { rows: out, resolved: pending.length - unresolved.length, unresolved };
+      })
+    );
+  }
+
+  private gazetteer(): Observable<GazetteerIndex> {
+    if (!this.index$) {
+      this.index$ = this.http.get<GazetteerAsset>(GAZETTEER_URL).pipe(
+        map((asset) => new GazetteerIndex(asset)),
+        shareReplay(1)
+      );
+    }
+    return this.index$;
+  }
+
+  private lookup(
+    index: GazetteerIndex,
+    countries: CountryResolver,
+    query: GeocodeQuery
+  ): { match: GeocodeMatch | null; reason: string } {
+    const country = query.country ? countries.resolve(query.country) : null;
+    if (query.country && !country) return { match: null, reason: `Unknown country "${query.country}"` };
+    const cacheKey = [query.city, query.state ?? '', country?.iso2 ?? ''].join('|').toLowerCase();
+    if (!this.cache.has(cacheKey)) {
+      this.cache.set(cacheKey, index.match(query.city, country?.iso2 ?? null, query.state));
+    }
+    const match = this.cache.get(cacheKey)!;
+    return { match, reason: match ? '' : 'No matching place in the offline gazetteer' };
+  }
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+/** True for object rows with a city but a missing latitude or longitude. */
+function needsCoordinates(raw: unknown): boolean {
+  if (raw === null || typeof raw !== 'object') return false;
+  const r = raw as Record<string, unknown>;
+  return !!text(r['city']) && (toNumber(r['latitude']) === undefined || toNumber(r['longitude']) === undefined);
+}
+
+function describe(query: GeocodeQuery): string {
+  return [query.city, query.state, query.country].filter(Boolean).join(', ');
+}
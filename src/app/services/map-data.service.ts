@@ -1,26 +1,135 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { SurveyCity } from '../models/survey-city';
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  catchError,
+  concatMap,
+  defer,
+  filter,
+  finalize,
+  map,
+  retry,
+  share,
+  switchMap,
+  tap,
+  timer
+} from 'rxjs';
+import { SurveyCity, SurveyRowIssue, SurveyValidationResult } from '../models/survey-city';
+import { SURVEY_DATA_SOURCE, SurveyDataSource } from './data-sources/survey-data-source';
+import { SURVEY_STREAM } from './data-sources/survey-stream';
+import { GeocodingService } from './geocoding/geocoding.service';
+import { validateSurveyRows } from '../utils/survey-validation';
 
-/** Path to static survey data in assets. */
-const DATA_URL = 'assets/data.json';
+/** Delay before reconnecting a dropped survey stream. */
+const STREAM_RETRY_MS = 5000;
+
+/** Connection state of the survey stream; `off` when none is configured or nobody listens. */
+export type StreamStatus = 'off' | 'connecting' | 'live' | 'reconnecting';
 
 /**
- * Loads survey data from static JSON and exposes it as an observable.
- * No backend required.
+ * Loads survey data from the active `SurveyDataSource`, validates it and exposes it
+ * as an observable. The source can be swapped at runtime (e.g. after a file upload).
  */
 @Injectable({
   providedIn: 'root'
 })
 export class MapDataService {
-  constructor(private readonly http: HttpClient) {}
+  private readonly geocoding = inject(GeocodingService);
+  private readonly source$ = new BehaviorSubject<SurveyDataSource>(inject(SURVEY_DATA_SOURCE));
+  private readonly stream = inject(SURVEY_STREAM);
+  private updates$: Observable<SurveyCity[]> | null = null;
+
+  /** Result of validating the most recent load; null until data has arrived. */
+  readonly validation = signal<SurveyValidationResult | null>(null);
+  /** Why the most recent load failed; null while loading or after it succeeded. */
+  readonly loadError = signal<string | null>(null);
+  /** Label of the source currently in use. */
+  readonly sourceLabel = signal(this.source$.value.label);
+  readonly streamStatus = signal<StreamStatus>('off');
+  /** When the stream last delivered rows; null until it has. */
+  readonly lastUpdated = signal<Date | null>(null);
 
   /**
-   * Returns an observable of the survey data array.
-   * Subscribe in the component and handle loading/error state as needed.
+   * Returns an observable of the validated survey data array. Emits again whenever
+   * the active source changes or re-emits. Rows without coordinates are located via
+   * the offline gazetteer first; malformed or unlocatable rows are dropped and
+   * reported through `validation`. A source that fails to load is reported through
+   * `loadError` and does not end the observable.
    */
   getSurveyData(): Observable<SurveyCity[]> {
-    return this.http.get<SurveyCity[]>(DATA_URL);
+    return this.source$.pipe(switchMap((source) => this.load(source)));
+  }
+
+  /**
+   * Validated rows of one source. A failure (unreadable file, request error, missing
+   * gazetteer) is reported through `loadError` and ends only this load, so a later source
+   * still loads.
+   */
+  private load(source: SurveyDataSource): Observable<SurveyCity[]> {
+    this.loadError.set(null);
+    return source.load().pipe(
+      switchMap((rows) => this.geocoding.fillCoordinates(rows)),
+      map(({ rows, unresolved }) => {
+        const result = validateSurveyRows(rows);
+        if (unresolved.length > 0) {
+          // Replace the generic "Missing latitude/longitude" issues with the lookup failure.
+          const unlocated = new Set(unresolved.map((u) => u.row));
+          const lookupIssues: SurveyRowIssue[] = unresolved.map((u) => ({
+            row: u.row,
+            field: 'latitude',
+            message: `Could not locate "${u.place}": ${u.reason}`
+          }));
+          result.issues = [
+            ...lookupIssues,
+            ...result.issues.filter(
+              (i) => !(unlocated.has(i.row) && (i.field === 'latitude' || i.field === 'longitude'))
+            )
+          ].sort((a, b) => a.row - b.row);
+        }
+        this.validation.set(result);
+        return result.valid;
+      }),
+      catchError((err) => {
+        this.validation.set(null);
+        this.loadError.set(err?.message ?? 'Failed to load survey data');
+        return EMPTY;
+      })
+    );
+  }
+
+  /**
+   * Validated batches of new or revised rows from the configured `SurveyStream`; completes
+   * at once when there is none. Rows that fail validation or cannot be located are dropped.
+   * A lost connection is retried every few seconds. Subscribers share one connection.
+   */
+  getSurveyUpdates(): Observable<SurveyCity[]> {
+    const stream = this.stream;
+    if (!stream) return EMPTY;
+    this.updates$ ??= defer(() => {
+      this.streamStatus.set('connecting');
+      return stream.connect();
+    }).pipe(
+      tap(() => this.streamStatus.set('live')),
+      concatMap((rows) => this.geocoding.fillCoordinates(rows)),
+      map(({ rows }) => validateSurveyRows(rows).valid),
+      retry({
+        delay: () => {
+          this.streamStatus.set('reconnecting');
+          return timer(STREAM_RETRY_MS);
+        }
+      }),
+      filter((rows) => rows.length > 0),
+      tap(() => this.lastUpdated.set(new Date())),
+      finalize(() => this.streamStatus.set('off')),
+      share()
+    );
+    return this.updates$;
+  }
+
+  /** Replace the active data source; subscribers of `getSurveyData()` reload from it. */
+  useSource(source: SurveyDataSource): void {
+    this.sourceLabel.set(source.label);
+    this.source$.next(source);
   }
 }
@@ -0,0 +1,107 @@
+import { InjectionToken, Provider } from '@angular/core';
+
+/** Raster tiles from a `{z}/{x}/{y}` URL template: a public server, a self-hosted one or `assets/`. */
+export interface TileBasemap {
+  kind: 'tiles';
+  key: string;
+  label: string;
+  /** Leaflet URL template, absolute or relative to the app (e.g. `assets/tiles/{z}/{x}/{y}.png`). */
+  url: string;
+  attribution?: string;
+  subdomains?: string | string[];
+  /** Highest zoom the tiles exist for; Leaflet scales them up beyond it. */
+  maxNativeZoom?: number;
+  /** Rows are numbered bottom-up, as in MBTiles exported without flipping. */
+  tms?: boolean;
+  /** Request tiles with CORS so image exports can include them (default true). */
+  crossOrigin?: boolean;
+}
+
+/** No tiles: country outlines drawn from the bundled boundaries, for fully offline use. */
+export interface OutlineBasemap {
+  kind: 'outline';
+  key: string;
+  label: string;
+  land?: string;
+  border?: string;
+  water?: string;
+}
+
+export type BasemapProvider = TileBasemap | OutlineBasemap;
+
+/** Where boundary polygons are loaded from; both are TopoJSON. */
+export interface BoundarySources {
+  /** World countries with ISO numeric ids and a `name` property (world-atlas layout). */
+  countries: string;
+  /** Admin-1 boundaries, one object per ISO alpha-3 code. */
+  admin1: string;
+}
+
+export interface MapProvidersConfig {
+  /** Base maps offered in the "Map" selector, in order. */
+  basemaps: BasemapProvider[];
+  /** Key of the base map shown when the URL does not name one; the first one when omitted. */
+  defaultBasemap?: string;
+  boundaries: BoundarySources;
+}
+
+export const OUTLINE_BASEMAP: OutlineBasemap = { kind: 'outline', key: 'outline', label: 'Outline (offline)' };
+
+export const BUNDLED_BOUNDARIES: BoundarySources = {
+  countries: 'assets/geo/countries-110m.json',
+  admin1: 'assets/geo/admin1.topo.json'
+};
+
+/** Public tile servers plus the offline outline. */
+export const DEFAULT_MAP_PROVIDERS: MapProvidersConfig = {
+  basemaps: [
+    {
+      kind: 'tiles',
+      key: 'standard',
+      label: 'Standard',
+      url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+    },
+    {
+      kind: 'tiles',
+      key: 'satellite',
+      label: 'Satellite',
+      url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+      attribution: 'Tiles &copy; Esri'
+    },
+    {
+      kind: 'tiles',
+      key: 'terrain',
+      label: 'Terrain',
+      url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+      attribution:
+        'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, ' +
+        'SRTM | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a>'
+    },
+    OUTLINE_BASEMAP
+  ],
+  defaultBasemap: 'standard',
+  boundaries: BUNDLED_BOUNDARIES
+};
+
+/**
+ * Base maps and boundary sources. Defaults to public tile servers with bundled boundaries;
+ * override in `app.config.ts` with `provideMapProviders(...)`.
+ */
+export const MAP_PROVIDERS = new InjectionToken<MapProvidersConfig>('MAP_PROVIDERS', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MAP_PROVIDERS
+});
+
+/** Use these base maps and boundaries. Add to the application providers. */
+export function provideMapProviders(
+  config: Partial<MapProvidersConfig> & Pick<MapProvidersConfig, 'basemaps'>
+): Provider[] {
+  return [{ provide: MAP_PROVIDERS, useValue: { boundaries: BUNDLED_BOUNDARIES, ...config } }];
+}
+
+/** Key of the base map to start with. */
+export function defaultBasemapKey(config: MapProvidersConfig): string {
+  const { basemaps, defaultBasemap } = config;
+  return basemaps.some((b) => b.key === defaultBasemap) ? defaultBasemap! : (basemaps[0]?.key ?? '');
+}
@@ -0,0 +1,160 @@
+import { Injectable, InjectionToken, Provider, inject } from '@angular/core';
+import {
+  MetricDefinition,
+  MetricKey,
+  MetricThresholds,
+  MetricValueFn,
+  SurveyAggregate,
+  SurveyCity
+} from '../models/survey-city';
+import { DEFAULT_COLOR_THEME } from '../utils/color-scale';
+import { formatMetric, metricThresholds, readCoverage, readMetric } from '../utils/metric-values';
+
+/** The three survey scores, always registered. */
+export const SURVEY_METRICS: MetricDefinition[] = [
+  {
+    key: 'nps',
+    label: 'NPS',
+    range: [-100, 100],
+    decimals: 0,
+    source: { kind: 'survey', metric: 'nps' },
+    thresholds: DEFAULT_COLOR_THEME.thresholds['nps']
+  },
+  {
+    key: 'csat',
+    label: 'CSAT',
+    range: [0, 100],
+    decimals: 0,
+    source: { kind: 'survey', metric: 'csat' },
+    thresholds: DEFAULT_COLOR_THEME.thresholds['csat']
+  },
+  {
+    key: 'ces',
+    label: 'CES',
+    range: [1, 7],
+    decimals: 1,
+    source: { kind: 'survey', metric: 'ces' },
+    thresholds: DEFAULT_COLOR_THEME.thresholds['ces']
+  }
+];
+
+/** One input of a weighted index; `invert` for metrics where lower is better. */
+export interface IndexComponent {
+  metric: MetricKey;
+  weight: number;
+  invert?: boolean;
+}
+
+/**
+ * A 0–100 index of weighted metrics, each first rescaled to 0–100 over its range. A region
+ * missing some inputs is scored on the others, their weights rescaled to sum to one.
+ */
+export function weightedIndexMetric(
+  key: MetricKey,
+  label: string,
+  components: IndexComponent[],
+  thresholds?: Partial<MetricThresholds>
+): MetricDefinition {
+  return {
+    key,
+    label,
+    range: [0, 100],
+    decimals: 0,
+    thresholds,
+    source: {
+      kind: 'formula',
+      compute: (inputs) => {
+        let sum = 0;
+        let weight = 0;
+        for (const c of components) {
+          const value = inputs.value(c.metric);
+          const range = inputs.definition(c.metric)?.range;
+          if (value === undefined || !range || range[1] <= range[0]) continue;
+          const t = Math.min(1, Math.max(0, (value - range[0]) / (range[1] - range[0])));
+          sum += (c.invert ? 1 - t : t) * 100 * c.weight;
+          weight += c.weight;
+        }
+        return weight > 0 ? sum / weight : undefined;
+      }
+    }
+  };
+}
+
+/** Example composite: NPS and CSAT with inverted CES, weighted 40/40/20. */
+export const CUSTOMER_HEALTH_METRIC = weightedIndexMetric(
+  'health',
+  'Health',
+  [
+    { metric: 'nps', weight: 0.4 },
+    { metric: 'csat', weight: 0.4 },
+    { metric: 'ces', weight: 0.2, invert: true }
+  ],
+  { cutoffs: [50, 70] }
+);
+
+/**
+ * Metrics the map offers, in selector order. Defaults to the survey scores; add more in
+ * `app.config.ts` with `provideMetrics(...)`.
+ */
+export const METRICS = new InjectionToken<MetricDefinition[]>('METRICS', {
+  providedIn: 'root',
+  factory: () => SURVEY_METRICS
+});
+
+/**
+ * Offer these metrics after the survey scores. A metric with a survey score's key replaces
+ * it (e.g. NPS with other bands). Add to the application providers.
+ */
+export function provideMetrics(...metrics: MetricDefinition[]): Provider[] {
+  const keys = new Set(metrics.map((m) => m.key));
+  return [{ provide: METRICS, useValue: [...SURVEY_METRICS.filter((m) => !keys.has(m.key)), ...metrics] }];
+}
+
+/** Look up, read and format the registered metrics. */
+@Injectable({
+  providedIn: 'root'
+})
+export class MetricRegistry {
+  readonly metrics = inject(METRICS);
+  private readonly byKey = new Map(this.metrics.map((m) => [m.key, m]));
+
+  readonly keys = this.metrics.map((m) => m.key);
+  readonly options = this.metrics.map((m) => ({ value: m.key, label: m.label }));
+  /** The first metric; shown when nothing else is selected. */
+  readonly defaultKey = this.keys[0] ?? 'nps';
+
+  get(key: MetricKey): MetricDefinition | undefined {
+    return this.byKey.get(key);
+  }
+
+  label(key: MetricKey): string {
+    return this.byKey.get(key)?.label ?? key;
+  }
+
+  decimals(key: MetricKey): number {
+    return this.byKey.get(key)?.decimals ?? 0;
+  }
+
+  /** The metric's value for a row or aggregate, or undefined when it has none. */
+  value(item: SurveyAggregate | SurveyCity, key: MetricKey): number | undefined {
+    return readMetric(item, key, (k) => this.byKey.get(k));
+  }
+
+  /** Responses that reported the metric, or undefined when that is not known (formulas). */
+  coverage(item: SurveyAggregate | SurveyCity, key: MetricKey): number | undefined {
+    return readCoverage(item, key, (k) => this.byKey.get(k));
+  }
+
+  /** `value` as a plain function, for the comparison, alert and export helpers. */
+  readonly valueOf: MetricValueFn = (item, key) => this.value(item, key);
+
+  /** "42", "5.3"; "—" when missing. */
+  format(value: number | undefined, key: MetricKey): string {
+    return formatMetric(value, this.byKey.get(key));
+  }
+
+  /** Default color scale of every metric, for the initial color theme. */
+  thresholds(): Record<MetricKey, MetricThresholds> {
+    return Object.fromEntries(this.metrics.map((m) => [m.key, metricThresholds(m)]));
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable, signal } from '@angular/core';
+import { LocalStore } from '../utils/local-store';
+import { RegionSearchResult, regionResultKey } from '../utils/region-search';
+
+const MAX_RECENT = 6;
+
+const KINDS = ['country', 'state', 'city'];
+
+/** Places picked in the region search, newest first, saved in this browser's local storage. */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecentSearchesService {
+  private readonly store = new LocalStore('survey-map.recent-searches', isRegionSearchResult);
+  readonly recent = signal<RegionSearchResult[]>(this.store.load().slice(0, MAX_RECENT));
+
+  add(result: RegionSearchResult): void {
+    const key = regionResultKey(result);
+    const rest = this.recent().filter((r) => regionResultKey(r) !== key);
+    this.save([result, ...rest].slice(0, MAX_RECENT));
+  }
+
+  clear(): void {
+    this.save([]);
+  }
+
+  private save(recent: RegionSearchResult[]): void {
+    this.recent.set(recent);
+    this.store.save(recent);
+  }
+}
+
+function isRegionSearchResult(value: unknown): value is RegionSearchResult {
+  const r = value as Partial<RegionSearchResult> | null;
+  return (
+    !!r &&
+    KINDS.includes(r.kind as string) &&
+    typeof r.name === 'string' &&
+    typeof r.country === 'string' &&
+    (r.state === null || typeof r.state === 'string')
+  );
+}
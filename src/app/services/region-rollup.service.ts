@@ -0,0 +1,115 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { Observable, catchError, of, tap } from 'rxjs';
+import { SurveyCity } from '../models/survey-city';
+import { RegionRollup, rollupRegions } from '../utils/region-rollup';
+
+/** Smaller selections are rolled up on the main thread; copying them to a worker costs more. */
+const WORKER_MIN_ROWS = 10000;
+/** Rollups kept per dataset, most recently used last. */
+const MEMO_SIZE = 16;
+
+/** Message to the rollup worker. */
+export interface RollupRequest {
+  id: number;
+  rows: SurveyCity[];
+}
+
+/** The worker's answer to the request with the same `id`. */
+export interface RollupResponse {
+  id: number;
+  rollup: RegionRollup;
+}
+
+/**
+ * Country and state rollups of filtered survey rows. Large selections are rolled up in a Web
+ * Worker. Results are memoized per dataset by filter key, so that going back to a filter, or
+ * changing anything that is not a filter (metric, display type), never rolls up again. A new
+ * dataset (e.g. after streamed rows are merged) starts a new memo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RegionRollupService implements OnDestroy {
+  private readonly memos = new WeakMap<SurveyCity[], Map<string, RegionRollup>>();
+  private worker: Worker | null = null;
+  /** Set when the worker failed; later rollups then run on the main thread. */
+  private workerFailed = false;
+  private nextId = 0;
+
+  /**
+   * Rollup of `rows`, the subset of `source` selected by `filterKey`. Emits once: at once when
+   * memoized or small, otherwise when the worker is done (or failed, in which case it is
+   * computed here).
+   */
+  rollup(source: SurveyCity[], filterKey: string, rows: SurveyCity[]): Observable<RegionRollup> {
+    const ready = this.rollupIfReady(source, filterKey, rows);
+    if (ready) return of(ready);
+    return this.inWorker(rows).pipe(
+      catchError(() => of(rollupRegions(rows))),
+      tap((rollup) => this.remember(source, filterKey, rollup))
+    );
+  }
+
+  /**
+   * The same without waiting: memoized, or computed here when `rows` is too small for the
+   * worker. Null when the worker is needed; `rollup()` then computes and memoizes it.
+   */
+  rollupIfReady(source: SurveyCity[], filterKey: string, rows: SurveyCity[]): RegionRollup | null {
+    const memoized = this.memoized(source, filterKey);
+    if (memoized) return memoized;
+    if (rows.length >= WORKER_MIN_ROWS && !this.workerFailed && typeof Worker !== 'undefined') {
+      return null;
+    }
+    const rollup = rollupRegions(rows);
+    this.remember(source, filterKey, rollup);
+    return rollup;
+  }
+
+  ngOnDestroy(): void {
+    this.worker?.terminate();
+  }
+
+  private memoized(source: SurveyCity[], filterKey: string): RegionRollup | undefined {
+    const memo = this.memos.get(source);
+    const rollup = memo?.get(filterKey);
+    if (memo && rollup) {
+      memo.delete(filterKey);
+      memo.set(filterKey, rollup);
+    }
+    return rollup;
+  }
+
+  private remember(source: SurveyCity[], filterKey: string, rollup: RegionRollup): void {
+    let memo = this.memos.get(source);
+    if (!memo) this.memos.set(source, (memo = new Map()));
+    memo.set(filterKey, rollup);
+    if (memo.size > MEMO_SIZE) memo.delete(memo.keys().next().value!);
+  }
+
+  private inWorker(rows: SurveyCity[]): Observable<RegionRollup> {
+    return new Observable<RegionRollup>((subscriber) => {
+      const worker = (this.worker ??= new Worker(new URL('./region-rollup.worker', import.meta.url), {
+        type: 'module'
+      }));
+      const id = ++this.nextId;
+      const onMessage = ({ data }: MessageEvent<RollupResponse>) => {
+        if (data.id !== id) return;
+        subscriber.next(data.rollup);
+        subscriber.complete();
+      };
+      const onError = (event: ErrorEvent) => {
+        this.workerFailed = true;
+        this.worker = null;
+        worker.terminate();
+        subscriber.error(event.error ?? new Error(event.message));
+      };
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      worker.postMessage({ id, rows } satisfies RollupRequest);
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+      };
+    });
+  }
+}
@@ -0,0 +1,9 @@
+/// <reference lib="webworker" />
+
+import type { RollupRequest, RollupResponse } from './region-rollup.service';
+import { rollupRegions } from '../utils/region-rollup';
+
+addEventListener('message', ({ data }: MessageEvent<RollupRequest>) => {
+  const response: RollupResponse = { id: data.id, rollup: rollupRegions(data.rows) };
+  postMessage(response);
+});
@@ -0,0 +1,132 @@
+import { AlertRule, MetricValueFn, SurveyCity } from '../models/survey-city';
+import { LevelItems, alertWindows, describeAlertRule, evaluateAlertRules } from './alert-rules';
+import { aggregateCities, rollupRegions } from './region-rollup';
+
+function row(city: string, nps: number, overrides: Partial<SurveyCity> = {}): SurveyCity {
+  return {
+    city,
+    state: 'Texas',
+    country: 'USA',
+    latitude: 0,
+    longitude: 0,
+    nps,
+    responseCount: 100,
+    ...overrides
+  };
+}
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'r',
+    metric: 'nps',
+    condition: 'below',
+    threshold: 0,
+    minResponses: 0,
+    level: 'any',
+    ...overrides
+  };
+}
+
+/** Items of every level, the way the map feeds them to the rules. */
+function levelItems(rows: SurveyCity[]): LevelItems {
+  const rollup = rollupRegions(rows);
+  return {
+    country: rollup.countries,
+    state: [...rollup.states.values()].flat(),
+    city: aggregateCities(rows)
+  };
+}
+
+const valueOf: MetricValueFn = (item, metric) => (metric === 'nps' ? item.nps : undefined);
+
+describe('describeAlertRule', () => {
+  it('reads like a sentence', () => {
+    expect(describeAlertRule(rule({ threshold: 60, minResponses: 100 }), 'CSAT')).toBe(
+      'CSAT below 60 with more than 100 responses (any region)'
+    );
+    expect(describeAlertRule(rule({ condition: 'drop', threshold: 5, level: 'city' }), 'NPS')).toBe(
+      'NPS dropped more than 5 points vs previous period (cities)'
+    );
+  });
+});
+
+describe('alertWindows', () => {
+  it('compares a bounded window with the equally long one before it', () => {
+    const range = { start: '2025-04-01T00:00:00.000Z', end: '2025-04-11T00:00:00.000Z' };
+    expect(alertWindows(range, [])).toEqual({
+      current: range,
+      previous: { start: '2025-03-22T00:00:00.000Z', end: range.start }
+    });
+  });
+
+  it('otherwise compares the latest two quarters in the data', () => {
+    const rows = [
+      row('Austin', 0, { surveyDate: '2024-11-05' }),
+      row('Dallas', 0, { surveyDate: '2025-05-20' })
+    ];
+    const windows = alertWindows({ start: null, end: null }, rows)!;
+    expect(windows.current.start).toBe('2025-04-01T00:00:00.000Z');
+    expect(windows.previous).toEqual({
+      start: '2025-01-01T00:00:00.000Z',
+      end: '2025-04-01T00:00:00.000Z'
+    });
+    expect(alertWindows({ start: null, end: null }, rows.slice(0, 1))).toBeNull();
+  });
+});
+
+describe('evaluateAlertRules', () => {
+  it('checks threshold rules at the rule level only', () => {
+    const items = levelItems([
+      row('Austin', -20),
+      row('Lyon', 30, { state: 'Rhône', country: 'France' })
+    ]);
+    const breaches = evaluateAlertRules([rule({ level: 'country' })], items, null, valueOf);
+    expect(breaches.map((b) => b.label)).toEqual(['USA']);
+  });
+
+  it('judges a city surveyed several times on its combined score, once', () => {
+    const rows = [
+      row('Austin', -30, { surveyDate: '2025-01-10' }),
+      row('Austin', 10, { surveyDate: '2025-02-10' })
+    ];
+    const breaches = evaluateAlertRules(
+      [rule({ level: 'city', threshold: -5 })],
+      levelItems(rows),
+      null,
+      valueOf
+    );
+    expect(breaches).toHaveLength(1);
+    expect(breaches[0]).toMatchObject({ label: 'Austin, USA', value: -10 });
+  });
+
+  it('labels states and cities with their country', () => {
+    const breaches = evaluateAlertRules([rule()], levelItems([row('Austin', -20)]), null, valueOf);
+    expect(breaches.map((b) => b.label)).toEqual(['USA', 'Texas, USA', 'Austin, USA']);
+  });
+
+  it('skips regions without enough responses and metrics it does not know', () => {
+    const items = levelItems([row('Austin', -20, { responseCount: 40 })]);
+    expect(evaluateAlertRules([rule({ minResponses: 40 })], items, null, valueOf)).toEqual([]);
+    expect(evaluateAlertRules([rule({ metric: 'revenue' })], items, null, valueOf)).toEqual([]);
+  });
+
+  it('compares change rules with the previous window', () => {
+    const change = {
+      previous: levelItems([row('Austin', 40), row('Dallas', 10)]),
+      current: levelItems([row('Austin', 20), row('Dallas', 12)])
+    };
+    const drop = rule({ condition: 'drop', threshold: 15, level: 'city' });
+    const breaches = evaluateAlertRules([drop], change.current, change, valueOf);
+    expect(breaches).toHaveLength(1);
+    expect(breaches[0]).toMatchObject({ label: 'Austin, USA', value: 20, change: -20 });
+    const rise = rule({ condition: 'rise', threshold: 1, level: 'city' });
+    expect(evaluateAlertRules([rise], change.current, change, valueOf).map((b) => b.label)).toEqual(
+      ['Dallas, USA']
+    );
+  });
+
+  it('leaves change rules quiet without a previous window', () => {
+    const drop = rule({ condition: 'drop', threshold: 1 });
+    expect(evaluateAlertRules([drop], levelItems([row('Austin', -50)]), null, valueOf)).toEqual([]);
+  });
+});
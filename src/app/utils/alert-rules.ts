@@ -0,0 +1,122 @@
+import {
+  AlertBreach,
+  AlertCondition,
+  AlertRule,
+  DateRange,
+  DrillLevel,
+  MetricValueFn,
+  SurveyAggregate,
+  SurveyCity
+} from '../models/survey-city';
+import { itemKey } from './comparison';
+import { buildPeriods, filterByDateRange } from './survey-period';
+
+/** Items of each drill level, as the map would draw them. */
+export type LevelItems = Record<DrillLevel, (SurveyAggregate | SurveyCity)[]>;
+
+export const ALERT_CONDITIONS: { value: AlertCondition; label: string }[] = [
+  { value: 'below', label: 'below' },
+  { value: 'above', label: 'above' },
+  { value: 'drop', label: 'dropped more than' },
+  { value: 'rise', label: 'rose more than' }
+];
+
+const LEVEL_LABELS: Record<AlertRule['level'], string> = {
+  any: 'any region',
+  country: 'countries',
+  state: 'states',
+  city: 'cities'
+};
+
+/** True for conditions that compare with the previous period. */
+export function isChangeCondition(condition: AlertCondition): boolean {
+  return condition === 'drop' || condition === 'rise';
+}
+
+/** "CSAT below 60 with more than 100 responses (any region)". */
+export function describeAlertRule(rule: AlertRule, metricLabel: string): string {
+  const condition = ALERT_CONDITIONS.find((c) => c.value === rule.condition)?.label ?? rule.condition;
+  const points = isChangeCondition(rule.condition) ? ' points vs previous period' : '';
+  const sample = rule.minResponses > 0 ? ` with more than ${rule.minResponses} responses` : '';
+  return `${metricLabel} ${condition} ${rule.threshold}${points}${sample} (${LEVEL_LABELS[rule.level]})`;
+}
+
+/**
+ * The window drop/rise rules look at, and the one before it. A bounded timeline window is
+ * compared with the equally long window just before it; otherwise the latest quarter in
+ * the data with the quarter before. Null when there is no earlier period.
+ */
+export function alertWindows(
+  range: DateRange,
+  data: SurveyCity[]
+): { current: DateRange; previous: DateRange } | null {
+  if (range.start && range.end) {
+    const start = new Date(range.start).getTime();
+    const length = new Date(range.end).getTime() - start;
+    return { current: range, previous: { start: new Date(start - length).toISOString(), end: range.start } };
+  }
+  const quarters = buildPeriods(filterByDateRange(data, range), 'quarter');
+  if (quarters.length < 2) return null;
+  const [previous, current] = quarters.slice(-2);
+  return {
+    current: { start: current.start, end: current.end },
+    previous: { start: previous.start, end: previous.end }
+  };
+}
+
+/**
+ * Regions breaking each rule. Threshold rules are checked against `items`; drop/rise rules
+ * against `change`, the items of the current and previous alert windows, paired by region.
+ * City items are expected rolled up per place (`aggregateCities`), so a city surveyed on
+ * several dates is judged on its combined score. Rules on metrics `valueOf` does not know
+ * never fire.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  items: LevelItems,
+  change: { current: LevelItems; previous: LevelItems } | null,
+  valueOf: MetricValueFn
+): AlertBreach[] {
+  const breaches: AlertBreach[] = [];
+  for (const rule of rules) {
+    const levels: DrillLevel[] = rule.level === 'any' ? ['country', 'state', 'city'] : [rule.level];
+    const seen = new Set<string>();
+    for (const level of levels) {
+      if (isChangeCondition(rule.condition)) {
+        if (!change) continue;
+        const before = new Map(change.previous[level].map((item) => [itemKey(item), item]));
+        for (const item of change.current[level]) {
+          const key = itemKey(item);
+          const previous = before.get(key);
+          const value = valueOf(item, rule.metric);
+          const old = previous ? valueOf(previous, rule.metric) : undefined;
+          if (seen.has(key) || value === undefined || old === undefined) continue;
+          if (item.responseCount <= rule.minResponses) continue;
+          const delta = value - old;
+          const breached = rule.condition === 'drop' ? -delta > rule.threshold : delta > rule.threshold;
+          if (!breached) continue;
+          seen.add(key);
+          breaches.push({ rule, key, label: regionLabel(item), item, value, change: delta });
+        }
+      } else {
+        for (const item of items[level]) {
+          const key = itemKey(item);
+          const value = valueOf(item, rule.metric);
+          if (seen.has(key) || value === undefined || item.responseCount <= rule.minResponses) continue;
+          const breached = rule.condition === 'below' ? value < rule.threshold : value > rule.threshold;
+          if (!breached) continue;
+          seen.add(key);
+          breaches.push({ rule, key, label: regionLabel(item), item, value });
+        }
+      }
+    }
+  }
+  return breaches;
+}
+
+/** "France", "Texas, USA" or "Lyon, France". */
+function regionLabel(item: SurveyAggregate | SurveyCity): string {
+  const name = 'level' in item && 'name' in item ? item.name : (item as SurveyCity).city;
+  const country = 'level' in item && item.level === 'country' ? undefined : item.country;
+  return country ? `${name}, ${country}` : name;
+}
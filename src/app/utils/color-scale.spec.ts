@@ -0,0 +1,87 @@
+import { ColorTheme } from '../models/survey-city';
+import {
+  DEFAULT_COLOR_THEME,
+  NO_DATA_COLOR,
+  PALETTES,
+  colorForValue,
+  legendForMetric,
+  parseCutoffs,
+  sampleRamp
+} from './color-scale';
+
+const [RED, YELLOW, GREEN] = PALETTES.traffic.diverging;
+
+function theme(mode: ColorTheme['mode']): ColorTheme {
+  return { ...DEFAULT_COLOR_THEME, mode };
+}
+
+describe('sampleRamp', () => {
+  it('returns the stops at their positions and blends between them', () => {
+    expect(sampleRamp(['#000000', '#ffffff'], 0)).toBe('#000000');
+    expect(sampleRamp(['#000000', '#ffffff'], 1)).toBe('#ffffff');
+    expect(sampleRamp(['#000000', '#ffffff'], 0.5)).toBe('#808080');
+  });
+
+  it('clamps positions outside 0–1', () => {
+    expect(sampleRamp(['#000000', '#ffffff'], 2)).toBe('#ffffff');
+  });
+});
+
+describe('colorForValue', () => {
+  it('colors bands from their cutoffs, a cutoff starting the band above it', () => {
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'nps', -1)).toBe(RED);
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'nps', 0)).toBe(YELLOW);
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'nps', 50)).toBe(GREEN);
+  });
+
+  it('takes the good end for low scores when lower is better', () => {
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'ces', 2)).toBe(GREEN);
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'ces', 6)).toBe(RED);
+  });
+
+  it('places values on continuous scales by domain and midpoint', () => {
+    const sequential = PALETTES.traffic.sequential;
+    expect(colorForValue(theme('sequential'), 'nps', -100)).toBe(sequential[0]);
+    expect(colorForValue(theme('sequential'), 'nps', 100)).toBe(sequential[sequential.length - 1]);
+    expect(colorForValue(theme('diverging'), 'csat', 70)).toBe(YELLOW);
+    expect(colorForValue(theme('diverging'), 'csat', 100)).toBe(GREEN);
+  });
+
+  it('uses the no-data color for missing scores and unknown metrics', () => {
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'nps', undefined)).toBe(NO_DATA_COLOR);
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'nps', NaN)).toBe(NO_DATA_COLOR);
+    expect(colorForValue(DEFAULT_COLOR_THEME, 'revenue', 10)).toBe(NO_DATA_COLOR);
+  });
+});
+
+describe('legendForMetric', () => {
+  it('lists bands best first', () => {
+    expect(legendForMetric(DEFAULT_COLOR_THEME, 'nps')).toEqual({
+      ranges: [
+        { label: '50+', color: GREEN },
+        { label: '0–49', color: YELLOW },
+        { label: '<0', color: RED }
+      ],
+      gradient: null
+    });
+  });
+
+  it('shows ticks and a gradient for continuous scales', () => {
+    const legend = legendForMetric(theme('diverging'), 'nps');
+    expect(legend.ranges.map((r) => r.label)).toEqual(['-100', '0', '100']);
+    expect(legend.gradient).toContain('linear-gradient');
+  });
+});
+
+describe('parseCutoffs', () => {
+  it('reads a sorted, de-duplicated list', () => {
+    expect(parseCutoffs(' 50, 0 ,50, -20')).toEqual([-20, 0, 50]);
+    expect(parseCutoffs('3,')).toEqual([3]);
+  });
+
+  it('rejects empty lists and non-numbers', () => {
+    expect(parseCutoffs('')).toBeNull();
+    expect(parseCutoffs(' , ')).toBeNull();
+    expect(parseCutoffs('10, ten')).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { ColorScaleMode, ColorTheme, MetricKey, MetricThresholds, PaletteId } from '../models/survey-city';
+
+/** A named set of color ramps. Ramps run from worst to best score. */
+export interface Palette {
+  id: PaletteId;
+  label: string;
+  /** Distinguishable with the common forms of color vision deficiency. */
+  colorblindSafe: boolean;
+  /** Band colors and diverging scale (worst → neutral → best). */
+  diverging: string[];
+  /** Sequential scale (worst → best), light to dark or dark to light. */
+  sequential: string[];
+  /** Heatmap density, low → high; unrelated to score quality. */
+  heat: string[];
+}
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  traffic: {
+    id: 'traffic',
+    label: 'Traffic light',
+    colorblindSafe: false,
+    diverging: ['#ef4444', '#eab308', '#22c55e'],
+    sequential: ['#fef2f2', '#fde68a', '#86efac', '#15803d'],
+    heat: ['#3b82f6', '#22c55e', '#eab308', '#ef4444']
+  },
+  'okabe-ito': {
+    id: 'okabe-ito',
+    label: 'Okabe–Ito (colorblind-safe)',
+    colorblindSafe: true,
+    diverging: ['#d55e00', '#f0e442', '#0072b2'],
+    sequential: ['#fff7bc', '#fec44f', '#56b4e9', '#0072b2'],
+    heat: ['#56b4e9', '#009e73', '#f0e442', '#d55e00']
+  },
+  viridis: {
+    id: 'viridis',
+    label: 'Viridis (colorblind-safe)',
+    colorblindSafe: true,
+    diverging: ['#440154', '#21918c', '#fde725'],
+    sequential: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+    heat: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725']
+  },
+  'purple-orange': {
+    id: 'purple-orange',
+    label: 'Orange–purple (colorblind-safe)',
+    colorblindSafe: true,
+    diverging: ['#e66101', '#fdb863', '#f7f7f7', '#b2abd2', '#5e3c99'],
+    sequential: ['#f7f7f7', '#b2abd2', '#8073ac', '#5e3c99'],
+    heat: ['#5e3c99', '#b2abd2', '#fdb863', '#e66101']
+  }
+};
+
+export const COLOR_SCALE_MODES: { value: ColorScaleMode; label: string }[] = [
+  { value: 'bands', label: 'Threshold bands' },
+  { value: 'sequential', label: 'Sequential' },
+  { value: 'diverging', label: 'Diverging' }
+];
+
+/** Color used when a score is missing or the metric is unknown. */
+export const NO_DATA_COLOR = '#6b7280';
+
+/** The industry-standard three-band cutoffs (NPS 50/0, CSAT 80/60, CES 3/5) in traffic-light colors. */
+export const DEFAULT_COLOR_THEME: ColorTheme = {
+  palette: 'traffic',
+  mode: 'bands',
+  thresholds: {
+    nps: { cutoffs: [0, 50], higherIsBetter: true, domain: [-100, 100], midpoint: 0 },
+    csat: { cutoffs: [60, 80], higherIsBetter: true, domain: [0, 100], midpoint: 70 },
+    ces: { cutoffs: [3, 5], higherIsBetter: false, domain: [1, 7], midpoint: 4 }
+  }
+};
+
+/** One entry of the legend: a band (or a tick of a continuous scale) and its color. */
+export interface LegendRange {
+  label: string;
+  color: string;
+}
+
+/** Legend content for a metric; `gradient` is a CSS gradient for continuous scales. */
+export interface LegendScale {
+  ranges: LegendRange[];
+  gradient: string | null;
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function toHex(rgb: number[]): string {
+  return '#' + rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+/** Color at `t` (0–1) along a ramp of evenly spaced hex stops. */
+export function sampleRamp(stops: string[], t: number): string {
+  if (stops.length === 1) return stops[0];
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  const a = parseHex(stops[i]);
+  const b = parseHex(stops[i + 1]);
+  const f = x - i;
+  return toHex(a.map((c, k) => c + (b[k] - c) * f));
+}
+
+/** Index of the band a value falls in, counted from the lowest band; a cutoff starts the band above it. */
+function bandIndex(thresholds: MetricThresholds, value: number): number {
+  return thresholds.cutoffs.filter((c) => value >= c).length;
+}
+
+/** Position of band `index` on a worst → best ramp. */
+function bandQuality(thresholds: MetricThresholds, index: number): number {
+  const bands = thresholds.cutoffs.length + 1;
+  const t = bands > 1 ? index / (bands - 1) : 1;
+  return thresholds.higherIsBetter ? t : 1 - t;
+}
+
+/** Position of a value on a worst → best continuous ramp. */
+function continuousQuality(thresholds: MetricThresholds, mode: ColorScaleMode, value: number): number {
+  const [min, max] = thresholds.domain;
+  let t: number;
+  if (mode === 'diverging') {
+    const mid = thresholds.midpoint;
+    const half = value >= mid ? max - mid : mid - min;
+    t = half > 0 ? 0.5 + (0.5 * (value - mid)) / half : 0.5;
+  } else {
+    t = max > min ? (value - min) / (max - min) : 0.5;
+  }
+  t = Math.min(1, Math.max(0, t));
+  return thresholds.higherIsBetter ? t : 1 - t;
+}
+
+/** Color for a score under a theme; the "no data" gray when there is no score. */
+export function colorForValue(theme: ColorTheme, metric: MetricKey, value: number | undefined): string {
+  const thresholds = theme.thresholds[metric];
+  const palette = PALETTES[theme.palette] ?? PALETTES.traffic;
+  if (!thresholds || typeof value !== 'number' || Number.isNaN(value)) return NO_DATA_COLOR;
+  if (theme.mode === 'bands') {
+    return sampleRamp(palette.diverging, bandQuality(thresholds, bandIndex(thresholds, value)));
+  }
+  const ramp = theme.mode === 'sequential' ? palette.sequential : palette.diverging;
+  return sampleRamp(ramp, continuousQuality(thresholds, theme.mode, value));
+}
+
+/**
+ * Smallest change that gets the full color of the delta scale, so tiny changes stay pale.
+ * Other metrics use a twentieth of their color domain.
+ */
+const MIN_DELTA_SPAN: Record<MetricKey, number> = { nps: 10, csat: 5, ces: 0.5 };
+
+function minDeltaSpan(theme: ColorTheme, metric: MetricKey): number {
+  const domain = theme.thresholds[metric]?.domain;
+  return MIN_DELTA_SPAN[metric] ?? (domain ? (domain[1] - domain[0]) / 20 : 0);
+}
+
+/**
+ * Diverging color for a change in score, symmetric around no change and scaled to `maxAbs`
+ * (the largest change shown). Improvements take the palette's "good" end, so a CES decrease
+ * is colored like an NPS increase.
+ */
+export function deltaColor(theme: ColorTheme, metric: MetricKey, delta: number | undefined, maxAbs: number): string {
+  if (delta === undefined || Number.isNaN(delta)) return NO_DATA_COLOR;
+  const palette = PALETTES[theme.palette] ?? PALETTES.traffic;
+  const span = Math.max(maxAbs, minDeltaSpan(theme, metric));
+  const improvement = theme.thresholds[metric]?.higherIsBetter === false ? -delta : delta;
+  return sampleRamp(palette.diverging, 0.5 + (0.5 * improvement) / span);
+}
+
+/** Legend for the delta scale: worst change, no change, best change, with `decimals` places. */
+export function deltaLegend(theme: ColorTheme, metric: MetricKey, maxAbs: number, decimals = 0): LegendScale {
+  const palette = PALETTES[theme.palette] ?? PALETTES.traffic;
+  const span = Math.max(maxAbs, minDeltaSpan(theme, metric));
+  const fmt = (v: number) => (v > 0 ? '+' : v < 0 ? '−' : '±') + formatCutoff(Math.abs(v), decimals);
+  const higherIsBetter = theme.thresholds[metric]?.higherIsBetter !== false;
+  const ticks = [-span, 0, span];
+  const ranges = ticks.map((v) => ({ label: fmt(v), color: deltaColor(theme, metric, v, span) }));
+  const stops = higherIsBetter ? palette.diverging : [...palette.diverging].reverse();
+  return { ranges, gradient: `linear-gradient(to right, ${stops.join(', ')})` };
+}
+
+function formatCutoff(value: number, decimals: number): string {
+  const factor = 10 ** decimals;
+  return String(Math.round(value * factor) / factor);
+}
+
+/** Heatmap colors of a theme, low → high density. */
+export function heatGradient(theme: ColorTheme): string[] {
+  return (PALETTES[theme.palette] ?? PALETTES.traffic).heat;
+}
+
+/** Legend for the heatmap: a density ramp from low to high. */
+export function heatLegend(theme: ColorTheme): LegendScale {
+  const stops = heatGradient(theme);
+  return {
+    ranges: [
+      { label: 'Low', color: stops[0] },
+      { label: 'High', color: stops[stops.length - 1] }
+    ],
+    gradient: `linear-gradient(to right, ${stops.join(', ')})`
+  };
+}
+
+/** Legend entries for a metric shown with `decimals` places, best band (or highest-quality end) first. */
+export function legendForMetric(theme: ColorTheme, metric: MetricKey, decimals = 0): LegendScale {
+  const thresholds = theme.thresholds[metric];
+  const palette = PALETTES[theme.palette] ?? PALETTES.traffic;
+  const fmt = (v: number) => formatCutoff(v, decimals);
+
+  if (theme.mode !== 'bands') {
+    const [min, max] = thresholds.domain;
+    const ticks = theme.mode === 'diverging' ? [min, thresholds.midpoint, max] : [min, (min + max) / 2, max];
+    const ranges = ticks.map((v) => ({ label: fmt(v), color: colorForValue(theme, metric, v) }));
+    const ramp = theme.mode === 'sequential' ? palette.sequential : palette.diverging;
+    const stops = thresholds.higherIsBetter ? ramp : [...ramp].reverse();
+    return { ranges, gradient: `linear-gradient(to right, ${stops.join(', ')})` };
+  }
+
+  const { cutoffs, higherIsBetter } = thresholds;
+  // Upper band edge as displayed at the metric's precision.
+  const step = 10 ** -decimals;
+  const ranges: LegendRange[] = [];
+  for (let i = 0; i <= cutoffs.length; i++) {
+    const lo = cutoffs[i - 1];
+    const hi = cutoffs[i];
+    let label: string;
+    if (lo === undefined) label = `<${fmt(hi)}`;
+    else if (hi === undefined) label = `${fmt(lo)}+`;
+    else label = `${fmt(lo)}–${fmt(hi - step)}`;
+    ranges.push({ label, color: sampleRamp(palette.diverging, bandQuality(thresholds, i)) });
+  }
+  if (higherIsBetter) ranges.reverse();
+  return { ranges, gradient: null };
+}
+
+/** Parse a comma-separated cutoff list; null unless it is a non-empty list of numbers. */
+export function parseCutoffs(text: string): number[] | null {
+  const parts = text
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+  const values = parts.map(Number);
+  if (values.some((v) => Number.isNaN(v))) return null;
+  return [...new Set(values)].sort((a, b) => a - b);
+}
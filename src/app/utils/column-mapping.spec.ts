@@ -0,0 +1,61 @@
+import {
+  applyColumnMapping,
+  guessColumnMapping,
+  missingRequiredFields,
+  normalizeHeader
+} from './column-mapping';
+
+describe('normalizeHeader', () => {
+  it('drops case, spaces and punctuation', () => {
+    expect(normalizeHeader('Response Count')).toBe('responsecount');
+    expect(normalizeHeader('state/province')).toBe('stateprovince');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common header spellings', () => {
+    const headers = ['Town', 'Province', 'Nation', 'Lat', 'Lng', 'NPS Score', 'Respondents', 'Date'];
+    expect(guessColumnMapping(headers)).toEqual({
+      city: 0,
+      state: 1,
+      country: 2,
+      latitude: 3,
+      longitude: 4,
+      nps: 5,
+      responseCount: 6,
+      surveyDate: 7
+    });
+  });
+
+  it('assigns each column to one field at most', () => {
+    expect(guessColumnMapping(['city', 'city'])).toEqual({ city: 0 });
+  });
+
+  it('leaves unknown headers unmapped', () => {
+    expect(guessColumnMapping(['Store', 'Score'])).toEqual({});
+  });
+});
+
+describe('applyColumnMapping', () => {
+  const table = {
+    headers: ['Town', 'Nation', 'nps_9', ''],
+    rows: [
+      [' Austin ', 'USA', '12', 'x'],
+      ['Lyon', 'France']
+    ]
+  };
+
+  it('keys mapped cells by field and keeps other named columns', () => {
+    expect(applyColumnMapping(table, { city: 0, country: 1 })).toEqual([
+      { city: 'Austin', country: 'USA', nps_9: '12' },
+      { city: 'Lyon', country: 'France', nps_9: '' }
+    ]);
+  });
+});
+
+describe('missingRequiredFields', () => {
+  it('lists required fields without a column', () => {
+    expect(missingRequiredFields({ city: 0, nps: 2 })).toEqual(['country']);
+    expect(missingRequiredFields({ city: 0, country: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { ColumnMapping, SurveyImportField, TabularData } from '../models/survey-city';
+
+/**
+ * Importable fields in display order. `required` fields must be mapped before import;
+ * coordinates are optional here because rows without them can be resolved by lookup, and
+ * NPS / response count because they can be derived from per-score columns (`nps_0`…`nps_10`).
+ */
+export const IMPORT_FIELDS: { field: SurveyImportField; label: string; required: boolean }[] = [
+  { field: 'city', label: 'City', required: true },
+  { field: 'state', label: 'State / province', required: false },
+  { field: 'country', label: 'Country', required: true },
+  { field: 'latitude', label: 'Latitude', required: false },
+  { field: 'longitude', label: 'Longitude', required: false },
+  { field: 'nps', label: 'NPS', required: false },
+  { field: 'csat', label: 'CSAT', required: false },
+  { field: 'ces', label: 'CES', required: false },
+  { field: 'responseCount', label: 'Response count', required: false },
+  { field: 'surveyDate', label: 'Survey date', required: false }
+];
+
+/** Common header spellings per field, compared after `normalizeHeader`. */
+const HEADER_SYNONYMS: Record<SurveyImportField, string[]> = {
+  city: ['city', 'town', 'cityname', 'locality'],
+  state: ['state', 'province', 'region', 'statename', 'stateprovince', 'admin1'],
+  country: ['country', 'countryname', 'nation', 'countrycode'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  nps: ['nps', 'netpromoterscore', 'npsscore'],
+  csat: ['csat', 'customersatisfaction', 'csatscore', 'satisfaction'],
+  ces: ['ces', 'customereffortscore', 'cesscore', 'effort'],
+  responseCount: ['responsecount', 'responses', 'count', 'n', 'respondents', 'samplesize'],
+  surveyDate: ['surveydate', 'date', 'surveyedat', 'timestamp', 'responsedate']
+};
+
+/** Lower-case a header and drop spaces, underscores and punctuation. */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Well-known dimension columns, by canonical name, compared after `normalizeHeader`. */
+const DIMENSION_SYNONYMS: Record<string, string[]> = {
+  product: ['product', 'productline', 'productname'],
+  channel: ['channel', 'saleschannel', 'surveychannel'],
+  tier: ['tier', 'customertier', 'accounttier'],
+  segment: ['segment', 'customersegment'],
+  plan: ['plan', 'subscriptionplan']
+};
+
+/** Explicitly tagged dimension columns: `dim_product`, `dim.product` or `dim:product`. */
+const DIMENSION_PREFIX = /^dim[_.:](.+)$/i;
+
+/**
+ * Dimension name for a flat column or record key, or null when the key is not a dimension.
+ * Prefixed keys keep their own name; well-known names map to their canonical form.
+ */
+export function dimensionName(key: string): string | null {
+  const prefixed = DIMENSION_PREFIX.exec(key.trim());
+  if (prefixed) return prefixed[1].trim() || null;
+  const normalized = normalizeHeader(key);
+  for (const [name, synonyms] of Object.entries(DIMENSION_SYNONYMS)) {
+    if (synonyms.includes(normalized)) return name;
+  }
+  return null;
+}
+
+/** Guess which column feeds each field from the header names. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h, i) => !used.has(i) && HEADER_SYNONYMS[field].includes(h));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** Unmapped columns whose header names a known segment dimension, e.g. "Product line". */
+export function guessDimensionColumns(headers: string[], mapping: ColumnMapping): number[] {
+  const mapped = new Set(Object.values(mapping));
+  return headers.flatMap((header, index) => (!mapped.has(index) && dimensionName(header) ? [index] : []));
+}
+
+/**
+ * Turn table rows into raw records keyed by SurveyCity field, ready for validation.
+ * Unmapped columns are kept under their header name (e.g. `nps_9` distribution columns).
+ * When `dimensionColumns` is given, exactly those columns become segment dimensions
+ * (`dim_<name>` keys) and other dimension-like columns are left out.
+ */
+export function applyColumnMapping(
+  table: TabularData,
+  mapping: ColumnMapping,
+  dimensionColumns?: number[]
+): Record<string, string>[] {
+  const entries = Object.entries(mapping) as [SurveyImportField, number][];
+  const mapped = new Set(entries.map(([, index]) => index));
+  const dimensions = new Set(dimensionColumns ?? []);
+  const extra = table.headers
+    .map((header, index) => {
+      const name = header.trim();
+      if (!dimensions.has(index)) return { key: name, index };
+      return { key: `dim_${dimensionName(name) ?? name}`, index };
+    })
+    .filter(({ key, index }) => {
+      if (!key || mapped.has(index)) return false;
+      return !dimensionColumns || dimensions.has(index) || !dimensionName(key);
+    });
+  return table.rows.map((cells) => {
+    const record: Record<string, string> = {};
+    for (const { key, index } of extra) record[key] = (cells[index] ?? '').trim();
+    for (const [field, index] of entries) record[field] = (cells[index] ?? '').trim();
+    return record;
+  });
+}
+
+/** Required fields that have no column assigned. */
+export function missingRequiredFields(mapping: ColumnMapping): SurveyImportField[] {
+  return IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined).map((f) => f.field);
+}
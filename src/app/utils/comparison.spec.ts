@@ -0,0 +1,75 @@
+import { MetricValueFn, SurveyAggregate, SurveyCity } from '../models/survey-city';
+import { formatDelta, itemKey, maxAbsDelta, metricDelta, pairComparison, placeKey } from './comparison';
+
+function row(city: string, overrides: Partial<SurveyCity> = {}): SurveyCity {
+  return { city, state: 'Texas', country: 'USA', latitude: 0, longitude: 0, nps: 0, responseCount: 10, ...overrides };
+}
+
+function region(name: string, level: SurveyAggregate['level'], nps?: number): SurveyAggregate {
+  const country = level === 'country' ? undefined : 'USA';
+  return { name, country, latitude: 0, longitude: 0, nps, responseCount: 10, level };
+}
+
+const valueOf: MetricValueFn = (item, metric) => (metric === 'nps' ? item.nps : undefined);
+
+describe('itemKey and placeKey', () => {
+  it('give every row of a city the same place', () => {
+    const march = row('Austin', { surveyDate: '2025-03-01', dimensions: { tier: 'gold', channel: 'web' } });
+    const april = row('Austin', { surveyDate: '2025-04-01' });
+    expect(placeKey(march)).toBe(placeKey(april));
+    expect(itemKey(march)).not.toBe(itemKey(april));
+  });
+
+  it('key a row by its date and sorted segment tags', () => {
+    const tagged = row('Austin', { surveyDate: '2025-03-01', dimensions: { tier: 'gold', channel: 'web' } });
+    expect(itemKey(tagged)).toBe('city|USA|Texas|Austin|2025-03-01|channel=web&tier=gold');
+  });
+
+  it('key a city aggregate like the rows it rolls up', () => {
+    const austin = { ...region('Austin', 'city'), state: 'Texas' };
+    expect(itemKey(austin)).toBe(placeKey(row('Austin')));
+  });
+
+  it('tell regions of different levels apart', () => {
+    expect(itemKey(region('Georgia', 'state'))).not.toBe(itemKey(region('Georgia', 'country')));
+  });
+});
+
+describe('pairComparison', () => {
+  it('pairs items by key and keeps one-sided ones', () => {
+    const texas = region('Texas', 'state', 10);
+    const ohio = region('Ohio', 'state', 5);
+    const later = region('Texas', 'state', 25);
+    const maine = region('Maine', 'state', 0);
+    expect(pairComparison([texas, ohio], [later, maine])).toEqual([
+      { key: itemKey(texas), a: texas, b: later },
+      { key: itemKey(ohio), a: ohio, b: null },
+      { key: itemKey(maine), a: null, b: maine }
+    ]);
+  });
+});
+
+describe('metricDelta and maxAbsDelta', () => {
+  const pairs = pairComparison(
+    [region('Texas', 'state', 10), region('Ohio', 'state', 30), region('Utah', 'state')],
+    [region('Texas', 'state', 25), region('Ohio', 'state', 2), region('Utah', 'state', 40)]
+  );
+
+  it('subtract A from B when both sides have a score', () => {
+    expect(pairs.map((p) => metricDelta(p, 'nps', valueOf))).toEqual([15, -28, undefined]);
+  });
+
+  it('find the largest change either way', () => {
+    expect(maxAbsDelta(pairs, 'nps', valueOf)).toBe(28);
+    expect(maxAbsDelta([], 'nps', valueOf)).toBe(0);
+  });
+});
+
+describe('formatDelta', () => {
+  it('signs changes and rounds to the given places', () => {
+    expect(formatDelta(7, 0)).toBe('+7');
+    expect(formatDelta(-0.44, 1)).toBe('−0.4');
+    expect(formatDelta(0.004, 2)).toBe('±0');
+    expect(formatDelta(undefined, 0)).toBe('—');
+  });
+});
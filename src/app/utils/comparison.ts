@@ -0,0 +1,81 @@
+import { MetricKey, MetricValueFn, SurveyAggregate, SurveyCity } from '../models/survey-city';
+
+/** The same region (or city) in the two compared subsets; a side is null when it has no data. */
+export interface ComparedItem {
+  key: string;
+  a: SurveyAggregate | SurveyCity | null;
+  b: SurveyAggregate | SurveyCity | null;
+}
+
+/**
+ * Stable identity of a region or city row, shared by comparison pairs, table rows and map
+ * layers. A city can have several rows (one per survey date or segment), so a row's key adds
+ * its date and segment tags to the city's `placeKey`.
+ */
+export function itemKey(item: SurveyAggregate | SurveyCity): string {
+  if ('level' in item) return placeKey(item);
+  const dimensions = Object.entries(item.dimensions ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+  return `${placeKey(item)}|${item.surveyDate ?? ''}|${dimensions}`;
+}
+
+/** Identity of the region or city an item is for; every row of a city shares it. */
+export function placeKey(item: SurveyAggregate | SurveyCity): string {
+  if (!('level' in item)) return `city|${item.country}|${item.state ?? ''}|${item.city}`;
+  if (item.level === 'city') return `city|${item.country ?? ''}|${item.state ?? ''}|${item.name}`;
+  return `${item.level}|${item.country ?? ''}|${item.name}`;
+}
+
+/**
+ * Pair up the items of two subsets by `itemKey`, keeping items found on one side only. Pass
+ * city rows through `aggregateCities` first, so that each city pairs whatever its dates.
+ */
+export function pairComparison(
+  a: (SurveyAggregate | SurveyCity)[],
+  b: (SurveyAggregate | SurveyCity)[]
+): ComparedItem[] {
+  const pairs = new Map<string, ComparedItem>();
+  for (const item of a) {
+    const key = itemKey(item);
+    pairs.set(key, { key, a: item, b: null });
+  }
+  for (const item of b) {
+    const key = itemKey(item);
+    const pair = pairs.get(key);
+    if (pair) pair.b = item;
+    else pairs.set(key, { key, a: null, b: item });
+  }
+  return [...pairs.values()];
+}
+
+/** B minus A for a metric; undefined unless both sides have a score. */
+export function metricDelta(
+  pair: ComparedItem,
+  metric: MetricKey,
+  valueOf: MetricValueFn
+): number | undefined {
+  const a = pair.a ? valueOf(pair.a, metric) : undefined;
+  const b = pair.b ? valueOf(pair.b, metric) : undefined;
+  return a === undefined || b === undefined ? undefined : b - a;
+}
+
+/** Largest absolute change across pairs, used to scale the diverging delta colors. */
+export function maxAbsDelta(pairs: ComparedItem[], metric: MetricKey, valueOf: MetricValueFn): number {
+  let max = 0;
+  for (const pair of pairs) {
+    const delta = metricDelta(pair, metric, valueOf);
+    if (delta !== undefined) max = Math.max(max, Math.abs(delta));
+  }
+  return max;
+}
+
+/** "+7", "−0.4" or "±0" at the metric's `decimals`. */
+export function formatDelta(delta: number | undefined, decimals: number): string {
+  if (delta === undefined) return '—';
+  const factor = 10 ** decimals;
+  const rounded = Math.round(delta * factor) / factor;
+  if (rounded === 0) return '±0';
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(decimals)}`;
+}
@@ -0,0 +1,38 @@
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('city,nps\nAustin,42\nDallas,10')).toEqual([
+      ['city', 'nps'],
+      ['Austin', '42'],
+      ['Dallas', '10']
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    expect(parseCsv('"Portland, OR","say ""hi""","two\nlines"')).toEqual([
+      ['Portland, OR', 'say "hi"', 'two\nlines']
+    ]);
+  });
+
+  it('accepts CRLF endings, skips blank lines and strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,')).toEqual([
+      ['a', '', 'c'],
+      ['', '']
+    ]);
+  });
+
+  it('uses another delimiter when asked', () => {
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ]);
+  });
+});
@@ -0,0 +1,6 @@
+let counter = 0;
+
+/** Element id unique in the document, so a component can appear several times on one page. */
+export function uniqueId(prefix: string): string {
+  return `${prefix}-${++counter}`;
+}
@@ -0,0 +1,36 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Ensure a diagonal-hatch `<pattern>` in `color` exists in `svg` and return a `fill` value
+ * referencing it. Leaflet's SVG renderer accepts any fill string, so hatched paths are drawn
+ * by pointing `fill` at the pattern after the layer is added.
+ */
+export function hatchFill(svg: SVGSVGElement, color: string): string {
+  const id = `hatch-${color.replace(/[^a-z0-9]/gi, '')}`;
+  if (!svg.querySelector(`#${id}`)) {
+    let defs = svg.querySelector('defs');
+    if (!defs) {
+      defs = document.createElementNS(SVG_NS, 'defs');
+      svg.insertBefore(defs, svg.firstChild);
+    }
+    const pattern = document.createElementNS(SVG_NS, 'pattern');
+    pattern.setAttribute('id', id);
+    pattern.setAttribute('patternUnits', 'userSpaceOnUse');
+    pattern.setAttribute('width', '6');
+    pattern.setAttribute('height', '6');
+    pattern.setAttribute('patternTransform', 'rotate(45)');
+    const line = document.createElementNS(SVG_NS, 'rect');
+    line.setAttribute('width', '3');
+    line.setAttribute('height', '6');
+    line.setAttribute('fill', color);
+    pattern.appendChild(line);
+    defs.appendChild(pattern);
+  }
+  return `url(#${id})`;
+}
+
+/** Apply `hatchFill` to a rendered Leaflet path; no-op for non-SVG renderers. */
+export function applyHatch(element: Element | undefined, color: string): void {
+  if (!(element instanceof SVGElement) || !element.ownerSVGElement) return;
+  element.setAttribute('fill', hatchFill(element.ownerSVGElement, color));
+}
@@ -0,0 +1,135 @@
+import * as L from 'leaflet';
+
+/** A weighted position for the heatmap. */
+export interface HeatPoint {
+  latitude: number;
+  longitude: number;
+  weight: number;
+}
+
+export interface HeatLayerOptions extends L.LayerOptions {
+  /** Colors from low to high intensity. */
+  gradient: string[];
+  /** Radius of each point's spot and its blur, in pixels. */
+  radius?: number;
+  blur?: number;
+}
+
+/** Faintest a point is drawn, so light-weight points still show up. */
+const MIN_INTENSITY = 0.05;
+
+/**
+ * Canvas heatmap layer. Each point stamps a blurred spot whose opacity is its share of the
+ * largest weight; overlapping spots add up, and the resulting intensity is mapped onto
+ * `gradient`. The canvas covers the viewport and is redrawn after every pan or zoom.
+ */
+export class HeatLayer extends L.Layer {
+  private map: L.Map | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private readonly maxWeight: number;
+  private readonly radius: number;
+  private readonly blur: number;
+  private readonly gradient: string[];
+  private stamp: HTMLCanvasElement | null = null;
+  private palette: Uint8ClampedArray | null = null;
+
+  constructor(
+    private readonly points: HeatPoint[],
+    options: HeatLayerOptions
+  ) {
+    super(options);
+    this.radius = options.radius ?? 20;
+    this.blur = options.blur ?? 15;
+    this.gradient = options.gradient;
+    this.maxWeight = points.reduce((max, p) => Math.max(max, p.weight), 0);
+  }
+
+  override onAdd(map: L.Map): this {
+    this.map = map;
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    this.canvas.style.position = 'absolute';
+    this.canvas.style.pointerEvents = 'none';
+    this.getPane()?.appendChild(this.canvas);
+    map.on('moveend', this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  override onRemove(map: L.Map): this {
+    map.off('moveend', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.map = null;
+    return this;
+  }
+
+  private redraw(): void {
+    const map = this.map;
+    const canvas = this.canvas;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!map || !canvas || !ctx) return;
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    if (this.maxWeight <= 0) return;
+
+    const stamp = this.getStamp();
+    const extent = this.radius + this.blur;
+    for (const p of this.points) {
+      if (p.weight <= 0) continue;
+      const { x, y } = map.latLngToContainerPoint([p.latitude, p.longitude]);
+      if (x < -extent || y < -extent || x > size.x + extent || y > size.y + extent) continue;
+      ctx.globalAlpha = Math.min(1, Math.max(MIN_INTENSITY, p.weight / this.maxWeight));
+      ctx.drawImage(stamp, x - extent, y - extent);
+    }
+    ctx.globalAlpha = 1;
+
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const palette = this.getPalette();
+    const pixels = image.data;
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+      if (!alpha) continue;
+      const j = alpha * 4;
+      pixels[i - 3] = palette[j];
+      pixels[i - 2] = palette[j + 1];
+      pixels[i - 1] = palette[j + 2];
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+
+  /** Blurred black spot, drawn once via a shadow offset so the circle itself stays off-canvas. */
+  private getStamp(): HTMLCanvasElement {
+    if (this.stamp) return this.stamp;
+    const extent = this.radius + this.blur;
+    const stamp = document.createElement('canvas');
+    stamp.width = stamp.height = extent * 2;
+    const ctx = stamp.getContext('2d');
+    if (ctx) {
+      ctx.shadowOffsetX = ctx.shadowOffsetY = extent * 2;
+      ctx.shadowBlur = this.blur;
+      ctx.shadowColor = 'black';
+      ctx.beginPath();
+      ctx.arc(-extent, -extent, this.radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    return (this.stamp = stamp);
+  }
+
+  /** 256 RGBA entries sampled along the gradient, indexed by intensity. */
+  private getPalette(): Uint8ClampedArray {
+    if (this.palette) return this.palette;
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d')!;
+    const fill = ctx.createLinearGradient(0, 0, 256, 0);
+    this.gradient.forEach((color, i) => fill.addColorStop(i / Math.max(1, this.gradient.length - 1), color));
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, 256, 1);
+    return (this.palette = ctx.getImageData(0, 0, 256, 1).data);
+  }
+}
@@ -0,0 +1,31 @@
+import { hexbin } from './hexbin';
+
+const identity = (latitude: number, longitude: number) => ({ x: longitude, y: latitude });
+
+function point(x: number, y: number) {
+  return { latitude: y, longitude: x };
+}
+
+describe('hexbin', () => {
+  it('puts points near a hexagon center into that hexagon', () => {
+    const bins = hexbin([point(0, 0), point(2, 1), point(-1, -2)], identity, 10);
+    expect(bins).toHaveLength(1);
+    expect(bins[0].key).toBe('0:0');
+    expect(bins[0].center).toEqual({ x: 0, y: 0 });
+  });
+
+  it('separates points in neighbouring hexagons', () => {
+    // Pointy-top hexagons of radius 10 have neighbours √3·10 apart along x.
+    const bins = hexbin([point(0, 0), point(17.3, 0)], identity, 10);
+    expect(bins.map((b) => b.key)).toEqual(['0:0', '1:0']);
+    expect(bins[1].center.x).toBeCloseTo(Math.sqrt(3) * 10);
+  });
+
+  it('rounds to the nearest hexagon near a corner', () => {
+    // Axial (0.3, 0.4): rounding each coordinate alone would give 0:0, which is farther away.
+    const [bin] = hexbin([point(8.66, 6)], identity, 10);
+    expect(bin.key).toBe('0:1');
+    expect(bin.center.x).toBeCloseTo(Math.sqrt(3) * 5);
+    expect(bin.center.y).toBe(15);
+  });
+});
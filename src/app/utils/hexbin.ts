@@ -0,0 +1,59 @@
+import { ClusterPoint } from './marker-cluster';
+
+/** Points that fell into one hexagon; `center` is in the same pixel space as `project`. */
+export interface HexBin<T extends ClusterPoint> {
+  /** Axial coordinates `q:r`, stable for a given radius, so two datasets can be matched by bin. */
+  key: string;
+  center: { x: number; y: number };
+  items: T[];
+}
+
+const SQRT3 = Math.sqrt(3);
+
+/**
+ * Group points into pointy-top hexagons of `radius` pixels (center to corner). `project` maps a
+ * position to pixels at the zoom being binned (e.g. `map.project(latLng, zoom)`), so bins cover
+ * less ground as the map zooms in.
+ */
+export function hexbin<T extends ClusterPoint>(
+  items: T[],
+  project: (latitude: number, longitude: number) => { x: number; y: number },
+  radius: number
+): HexBin<T>[] {
+  const bins = new Map<string, HexBin<T>>();
+  for (const item of items) {
+    const { x, y } = project(item.latitude, item.longitude);
+    const [q, r] = hexRound(((SQRT3 / 3) * x - y / 3) / radius, ((2 / 3) * y) / radius);
+    const key = `${q}:${r}`;
+    const bin = bins.get(key);
+    if (bin) {
+      bin.items.push(item);
+    } else {
+      const center = { x: radius * SQRT3 * (q + r / 2), y: radius * 1.5 * r };
+      bins.set(key, { key, center, items: [item] });
+    }
+  }
+  return [...bins.values()];
+}
+
+/** The six corners of a pointy-top hexagon, clockwise from the upper right. */
+export function hexCorners(center: { x: number; y: number }, radius: number): { x: number; y: number }[] {
+  return Array.from({ length: 6 }, (_, i) => {
+    const angle = (Math.PI / 180) * (60 * i - 30);
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+/** Nearest hexagon to fractional axial coordinates (cube rounding). */
+function hexRound(q: number, r: number): [number, number] {
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return [rq, rr];
+}
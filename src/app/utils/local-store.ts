@@ -0,0 +1,28 @@
+/**
+ * A list kept as JSON under one local storage key. Loading drops entries that fail `isEntry`
+ * (e.g. saved by an older version); saving never throws, so with storage full or disabled
+ * the list only lasts for the session.
+ */
+export class LocalStore<T> {
+  constructor(
+    private readonly key: string,
+    private readonly isEntry: (value: unknown) => value is T
+  ) {}
+
+  load(): T[] {
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(this.key) ?? '[]');
+      return Array.isArray(parsed) ? parsed.filter(this.isEntry) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(entries: T[]): void {
+    try {
+      localStorage.setItem(this.key, JSON.stringify(entries));
+    } catch {
+      // Storage full or disabled: callers keep their in-memory copy.
+    }
+  }
+}
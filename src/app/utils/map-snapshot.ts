@@ -0,0 +1,275 @@
+import { LegendScale } from './color-scale';
+
+/** Pixel density of PNG snapshots relative to the on-screen map. */
+export const SNAPSHOT_SCALE = 2;
+
+const FONT_FAMILY = 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+const PANEL_PADDING = 8;
+const LINE_HEIGHT = 18;
+
+/** A Leaflet pane to copy, in paint order; `clipX` keeps only that horizontal span (swipe). */
+export interface SnapshotPane {
+  element: HTMLElement;
+  clipX?: [number, number];
+}
+
+/** Text baked into a snapshot: breadcrumb and filters top left, the legend bottom right. */
+export interface SnapshotOverlay {
+  heading: string[];
+  legendTitle: string;
+  legend: LegendScale;
+  legendNote?: string;
+}
+
+export interface MapSnapshot {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Serialize what the map container currently shows into a standalone SVG: tiles and canvas
+ * layers as embedded images, SVG layers (polygons, hatching) as vectors, time labels as text.
+ * Tiles are inlined as data URLs when their server allows CORS; otherwise they are linked,
+ * which still works in the SVG but leaves them out of a PNG rendered from it.
+ */
+export function mapSnapshotSvg(
+  container: HTMLElement,
+  panes: SnapshotPane[],
+  overlay: SnapshotOverlay
+): MapSnapshot {
+  const box = container.getBoundingClientRect();
+  const width = Math.round(box.width);
+  const height = Math.round(box.height);
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  panes.forEach((pane, i) => {
+    const parts: string[] = [];
+    const elements = pane.element.querySelectorAll<Element>(
+      'img.leaflet-tile-loaded, canvas, :scope > svg, .survey-time-marker'
+    );
+    for (const el of Array.from(elements)) {
+      const r = el.getBoundingClientRect();
+      if (r.width === 0 || r.right < box.left || r.left > box.right) continue;
+      if (r.bottom < box.top || r.top > box.bottom) continue;
+      const x = round(r.left - box.left);
+      const y = round(r.top - box.top);
+      const size = `x="${x}" y="${y}" width="${round(r.width)}" height="${round(r.height)}"`;
+      if (el instanceof HTMLImageElement) {
+        parts.push(image(size, imageDataUrl(el)));
+      } else if (el instanceof HTMLCanvasElement) {
+        parts.push(image(size, el.toDataURL('image/png')));
+      } else if (el instanceof SVGSVGElement) {
+        parts.push(vectorLayer(el, size));
+      } else if (el instanceof HTMLElement) {
+        parts.push(timeLabel(el, box));
+      }
+    }
+    if (parts.length === 0) return;
+    if (pane.clipX) {
+      const [x0, x1] = pane.clipX;
+      const rect = `<rect x="${round(x0)}" y="0" width="${round(x1 - x0)}" height="${height}"/>`;
+      defs.push(`<clipPath id="snapshot-clip-${i}">${rect}</clipPath>`);
+      body.push(`<g clip-path="url(#snapshot-clip-${i})">${parts.join('')}</g>`);
+    } else {
+      body.push(`<g>${parts.join('')}</g>`);
+    }
+  });
+
+  body.push(headingPanel(overlay.heading));
+  body.push(legendPanel(overlay, width, height, defs));
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs>${defs.join('')}</defs>` +
+    `<rect width="100%" height="100%" fill="#ddd"/>${body.join('')}</svg>`;
+  return { svg, width, height };
+}
+
+/** Rasterize a snapshot SVG to a PNG at `scale` times its size. */
+export function snapshotToPng(snapshot: MapSnapshot, scale = SNAPSHOT_SCALE): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = snapshot.width * scale;
+      canvas.height = snapshot.height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, snapshot.width, snapshot.height);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))),
+        'image/png'
+      );
+    };
+    img.onerror = () => reject(new Error('Could not render the map snapshot'));
+    img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(snapshot.svg);
+  });
+}
+
+/** Tile as a data URL, or its original URL when the tile server does not allow CORS. */
+function imageDataUrl(img: HTMLImageElement): string {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')?.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+  } catch {
+    return img.src;
+  }
+}
+
+function image(size: string, href: string): string {
+  return `<image ${size} preserveAspectRatio="none" xlink:href="${escapeXml(href)}"/>`;
+}
+
+/** Leaflet's SVG renderer, re-rooted at its on-screen position. */
+function vectorLayer(el: SVGSVGElement, size: string): string {
+  const serializer = new XMLSerializer();
+  const viewBox = el.getAttribute('viewBox');
+  const content = Array.from(el.childNodes)
+    .map((node) => serializer.serializeToString(node))
+    .join('');
+  return `<svg ${size}${viewBox ? ` viewBox="${viewBox}"` : ''}>${content}</svg>`;
+}
+
+function timeLabel(marker: HTMLElement, box: DOMRect): string {
+  const label = marker.querySelector('.survey-time-label') ?? marker;
+  const r = label.getBoundingClientRect();
+  const opacity = getComputedStyle(marker).opacity;
+  const x = round(r.left - box.left);
+  const y = round(r.top - box.top);
+  const background =
+    `<rect x="${x}" y="${y}" width="${round(r.width)}" height="${round(r.height)}" ` +
+    `rx="4" fill="#1f2937"/>`;
+  const cx = x + r.width / 2;
+  const content = text(cx, y + r.height / 2, label.textContent ?? '', 400, 'middle', '#fff');
+  const font = `font-family="${FONT_FAMILY}" font-size="11"`;
+  return `<g opacity="${opacity}" ${font}>${background}${content}</g>`;
+}
+
+function headingPanel(lines: string[]): string {
+  if (lines.length === 0) return '';
+  const weight = (i: number) => (i === 0 ? 600 : 400);
+  const contentWidth = Math.max(...lines.map((line, i) => textWidth(line, weight(i), 13)));
+  const width = contentWidth + 2 * PANEL_PADDING;
+  const height = lines.length * LINE_HEIGHT + 2 * PANEL_PADDING;
+  const rows = lines.map((line, i) => {
+    const y = 10 + PANEL_PADDING + (i + 0.5) * LINE_HEIGHT;
+    return text(10 + PANEL_PADDING, y, line, weight(i), 'start', i === 0 ? '#1f2937' : '#4b5563');
+  });
+  const font = `font-family="${FONT_FAMILY}" font-size="13"`;
+  return `<g ${font}>${panel(10, 10, width, height)}${rows.join('')}</g>`;
+}
+
+/** Legend box in the bottom-right corner: title, then a gradient with ticks or one row per band. */
+function legendPanel(
+  overlay: SnapshotOverlay,
+  mapWidth: number,
+  mapHeight: number,
+  defs: string[]
+): string {
+  const { legend, legendTitle, legendNote } = overlay;
+  const rows: string[] = [];
+  let y = PANEL_PADDING + LINE_HEIGHT / 2;
+  let contentWidth = textWidth(legendTitle, 600, 12);
+  rows.push(text(PANEL_PADDING, y, legendTitle, 600));
+  y += LINE_HEIGHT;
+
+  const stops = legend.gradient?.match(/#[0-9a-f]{6}/gi) ?? [];
+  if (legend.gradient && stops.length > 0) {
+    const barWidth = 160;
+    const offsets = stops.map(
+      (c, i) => `<stop offset="${i / Math.max(1, stops.length - 1)}" stop-color="${c}"/>`
+    );
+    defs.push(`<linearGradient id="snapshot-legend-gradient">${offsets.join('')}</linearGradient>`);
+    rows.push(
+      `<rect x="${PANEL_PADDING}" y="${y - 6}" width="${barWidth}" height="12" rx="2" ` +
+        `fill="url(#snapshot-legend-gradient)"/>`
+    );
+    y += LINE_HEIGHT;
+    legend.ranges.forEach((r, i) => {
+      const t = legend.ranges.length > 1 ? i / (legend.ranges.length - 1) : 0;
+      const anchor = t === 0 ? 'start' : t === 1 ? 'end' : 'middle';
+      rows.push(text(PANEL_PADDING + t * barWidth, y, r.label, 400, anchor));
+    });
+    y += LINE_HEIGHT;
+    contentWidth = Math.max(contentWidth, barWidth);
+  } else {
+    for (const r of legend.ranges) {
+      rows.push(swatch(PANEL_PADDING, y - 6, r.color));
+      rows.push(text(PANEL_PADDING + 18, y, r.label));
+      contentWidth = Math.max(contentWidth, 18 + textWidth(r.label, 400, 12));
+      y += LINE_HEIGHT;
+    }
+  }
+  if (legendNote) {
+    rows.push(text(PANEL_PADDING, y, legendNote, 400, 'start', '#6b7280'));
+    contentWidth = Math.max(contentWidth, textWidth(legendNote, 400, 12));
+    y += LINE_HEIGHT;
+  }
+
+  const width = contentWidth + 2 * PANEL_PADDING;
+  const height = y - LINE_HEIGHT / 2 + PANEL_PADDING;
+  const x0 = mapWidth - width - 12;
+  const y0 = mapHeight - height - 24;
+  return (
+    `<g transform="translate(${round(x0)},${round(y0)})" ` +
+    `font-family="${FONT_FAMILY}" font-size="12">` +
+    `${panel(0, 0, width, height)}${rows.join('')}</g>`
+  );
+}
+
+function panel(x: number, y: number, width: number, height: number): string {
+  return (
+    `<rect x="${x}" y="${y}" width="${round(width)}" height="${round(height)}" ` +
+    `rx="8" fill="#fff" stroke="#e5e7eb"/>`
+  );
+}
+
+function swatch(x: number, y: number, color: string): string {
+  return `<rect x="${x}" y="${round(y)}" width="12" height="12" rx="2" fill="${color}"/>`;
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  weight = 400,
+  anchor = 'start',
+  fill = '#374151'
+): string {
+  return (
+    `<text x="${round(x)}" y="${round(y)}" dominant-baseline="central" text-anchor="${anchor}" ` +
+    `font-weight="${weight}" fill="${fill}">${escapeXml(content)}</text>`
+  );
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Rendered width of a line of text, used to size the overlay boxes. */
+function textWidth(content: string, weight: number, size: number): number {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return content.length * size * 0.6;
+  measureContext.font = `${weight} ${size}px ${FONT_FAMILY}`;
+  return Math.ceil(measureContext.measureText(content).width);
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,105 @@
+import { UrlSegment, convertToParamMap } from '@angular/router';
+import {
+  MapUrlState,
+  drillPathMatcher,
+  mapUrlCommands,
+  mapUrlQueryParams,
+  parseMapUrlState,
+  sameViewport
+} from './map-url-state';
+
+const BASE_LAYERS = { keys: ['standard', 'topo'], fallback: 'standard' };
+const METRICS = { keys: ['nps', 'csat', 'ces'], fallback: 'nps' };
+
+function parse(params: Record<string, string>, query: Record<string, string> = {}): MapUrlState {
+  return parseMapUrlState(convertToParamMap(params), convertToParamMap(query), BASE_LAYERS, METRICS);
+}
+
+describe('drillPathMatcher', () => {
+  const segments = (...paths: string[]) => paths.map((p) => new UrlSegment(p, {}));
+
+  it('names up to two segments country and state', () => {
+    const match = drillPathMatcher(segments('France', 'Bretagne'))!;
+    expect(match.posParams?.['country'].path).toBe('France');
+    expect(match.posParams?.['state'].path).toBe('Bretagne');
+    expect(drillPathMatcher([])?.posParams).toEqual({});
+  });
+
+  it('does not match deeper paths', () => {
+    expect(drillPathMatcher(segments('a', 'b', 'c'))).toBeNull();
+  });
+});
+
+describe('parseMapUrlState', () => {
+  it('reads the drill path and query params', () => {
+    const state = parse(
+      { country: 'USA', state: 'Texas' },
+      { metric: 'csat', display: 'hexbin', map: 'topo', lat: '30.2', lng: '-97.7', z: '9' }
+    );
+    expect(state).toEqual({
+      drillLevel: 'city',
+      country: 'USA',
+      state: 'Texas',
+      metric: 'csat',
+      displayType: 'hexbin',
+      baseLayer: 'topo',
+      view: { lat: 30.2, lng: -97.7, zoom: 9 }
+    });
+  });
+
+  it('falls back to defaults for unknown values', () => {
+    const state = parse({}, { metric: 'profit', display: 'pie', map: 'satellite' });
+    expect(state).toMatchObject({ metric: 'nps', displayType: 'circle', baseLayer: 'standard' });
+  });
+
+  it('drops incomplete or out-of-range viewports', () => {
+    expect(parse({}, { lat: '10', lng: '20' }).view).toBeNull();
+    expect(parse({}, { lat: '95', lng: '20', z: '3' }).view).toBeNull();
+    expect(parse({}, { lat: 'x', lng: '20', z: '3' }).view).toBeNull();
+  });
+});
+
+describe('mapUrlCommands and mapUrlQueryParams', () => {
+  const defaults = { baseLayer: 'standard', metric: 'nps' };
+
+  it('build the drill path', () => {
+    expect(mapUrlCommands({ country: null, state: null })).toEqual(['/']);
+    expect(mapUrlCommands({ country: 'USA', state: 'Texas' })).toEqual(['/', 'USA', 'Texas']);
+  });
+
+  it('leave defaults out and round the center', () => {
+    const state = parse({ country: 'USA' });
+    expect(mapUrlQueryParams(state, defaults)).toEqual({});
+    const view = { lat: 30.1234567, lng: -97.7654321, zoom: 7 };
+    expect(mapUrlQueryParams({ ...state, metric: 'ces', view }, defaults)).toEqual({
+      metric: 'ces',
+      lat: '30.12346',
+      lng: '-97.76543',
+      z: '7'
+    });
+  });
+
+  it('round-trip through parsing', () => {
+    const state: MapUrlState = {
+      drillLevel: 'state',
+      country: 'France',
+      state: null,
+      metric: 'csat',
+      displayType: 'area',
+      baseLayer: 'topo',
+      view: { lat: 46.5, lng: 2.25, zoom: 6 }
+    };
+    expect(parse({ country: 'France' }, mapUrlQueryParams(state, defaults))).toEqual(state);
+  });
+});
+
+describe('sameViewport', () => {
+  it('compares at URL precision', () => {
+    const a = { lat: 1.000001, lng: 2, zoom: 3 };
+    expect(sameViewport(a, { lat: 1.000004, lng: 2, zoom: 3 })).toBe(true);
+    expect(sameViewport(a, { lat: 1.0001, lng: 2, zoom: 3 })).toBe(false);
+    expect(sameViewport(a, { ...a, zoom: 4 })).toBe(false);
+    expect(sameViewport(null, null)).toBe(true);
+    expect(sameViewport(a, null)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { ParamMap, Params, UrlMatchResult, UrlSegment } from '@angular/router';
+import { DisplayType, DrillLevel, MetricKey } from '../models/survey-city';
+
+/** Map center and zoom as stored in the URL. */
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+/**
+ * Everything needed to restore a view from a link. The drill path is
+ * `/<country>/<state>`; the rest are query params, omitted when at their default.
+ */
+export interface MapUrlState {
+  drillLevel: DrillLevel;
+  country: string | null;
+  state: string | null;
+  metric: MetricKey;
+  displayType: DisplayType;
+  baseLayer: string;
+  view: MapViewport | null;
+}
+
+const DISPLAY_TYPES: DisplayType[] = ['circle', 'time', 'area', 'heatmap', 'hexbin'];
+
+export const DEFAULT_DISPLAY_TYPE: DisplayType = 'circle';
+
+/**
+ * Registered keys a link may name (base maps, metrics), and the one used when it names none
+ * (or an unknown one).
+ */
+export interface UrlKeyChoice {
+  keys: readonly string[];
+  fallback: string;
+}
+
+/** Decimal places kept for the center, roughly 1 m. */
+const VIEW_PRECISION = 5;
+
+/** Route matcher for the drill path: `/`, `/:country` or `/:country/:state`. */
+export function drillPathMatcher(segments: UrlSegment[]): UrlMatchResult | null {
+  if (segments.length > 2) return null;
+  const posParams: Record<string, UrlSegment> = {};
+  if (segments[0]) posParams['country'] = segments[0];
+  if (segments[1]) posParams['state'] = segments[1];
+  return { consumed: segments, posParams };
+}
+
+/** Drill level implied by a drill path. */
+export function drillLevelOf(country: string | null, state: string | null): DrillLevel {
+  return state ? 'city' : country ? 'state' : 'country';
+}
+
+function oneOf<T extends string>(value: string | null, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+function parseViewport(query: ParamMap): MapViewport | null {
+  const lat = Number(query.get('lat'));
+  const lng = Number(query.get('lng'));
+  const zoom = Number(query.get('z'));
+  if (!query.has('lat') || !query.has('lng') || !query.has('z')) return null;
+  if (![lat, lng, zoom].every(Number.isFinite)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 22) return null;
+  return { lat, lng, zoom };
+}
+
+/** Read the view from route params and query params; unknown values fall back to defaults. */
+export function parseMapUrlState(
+  params: ParamMap,
+  query: ParamMap,
+  baseLayers: UrlKeyChoice,
+  metrics: UrlKeyChoice
+): MapUrlState {
+  const country = params.get('country') || null;
+  const state = country ? params.get('state') || null : null;
+  return {
+    drillLevel: drillLevelOf(country, state),
+    country,
+    state,
+    metric: oneOf(query.get('metric'), metrics.keys, metrics.fallback),
+    displayType: oneOf(query.get('display'), DISPLAY_TYPES, DEFAULT_DISPLAY_TYPE),
+    baseLayer: oneOf(query.get('map'), baseLayers.keys, baseLayers.fallback),
+    view: parseViewport(query)
+  };
+}
+
+/** Router commands for the drill path of a state. */
+export function mapUrlCommands(state: Pick<MapUrlState, 'country' | 'state'>): string[] {
+  const commands = ['/'];
+  if (state.country) {
+    commands.push(state.country);
+    if (state.state) commands.push(state.state);
+  }
+  return commands;
+}
+
+/** Query params for a state; defaults are left out to keep links short. */
+export function mapUrlQueryParams(
+  state: MapUrlState,
+  defaults: { baseLayer: string; metric: MetricKey }
+): Params {
+  const params: Params = {};
+  if (state.metric !== defaults.metric) params['metric'] = state.metric;
+  if (state.displayType !== DEFAULT_DISPLAY_TYPE) params['display'] = state.displayType;
+  if (state.baseLayer !== defaults.baseLayer) params['map'] = state.baseLayer;
+  if (state.view) {
+    params['lat'] = String(Number(state.view.lat.toFixed(VIEW_PRECISION)));
+    params['lng'] = String(Number(state.view.lng.toFixed(VIEW_PRECISION)));
+    params['z'] = String(state.view.zoom);
+  }
+  return params;
+}
+
+/** True when two viewports are the same at URL precision. */
+export function sameViewport(a: MapViewport | null, b: MapViewport | null): boolean {
+  if (!a || !b) return a === b;
+  const eps = 10 ** -VIEW_PRECISION;
+  return Math.abs(a.lat - b.lat) < eps && Math.abs(a.lng - b.lng) < eps && a.zoom === b.zoom;
+}
@@ -0,0 +1,47 @@
+/** Anything with a position. */
+export interface ClusterPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** Points that fell into one grid cell at a given zoom. */
+export interface MarkerCluster<T extends ClusterPoint> {
+  items: T[];
+  /** South-west and north-east corners of the members, for zooming in on the cluster. */
+  bounds: [[number, number], [number, number]];
+}
+
+/**
+ * Group points whose projected positions share a `cellSize`-pixel grid cell. `project` maps a
+ * position to pixels at the zoom being clustered (e.g. `map.project(latLng, zoom)`). Linear in
+ * the number of points, so it can be rerun per zoom level on large datasets.
+ */
+export function clusterByGrid<T extends ClusterPoint>(
+  items: T[],
+  project: (latitude: number, longitude: number) => { x: number; y: number },
+  cellSize: number
+): MarkerCluster<T>[] {
+  const cells = new Map<string, MarkerCluster<T>>();
+  for (const item of items) {
+    const { x, y } = project(item.latitude, item.longitude);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cluster = cells.get(key);
+    if (!cluster) {
+      cells.set(key, {
+        items: [item],
+        bounds: [
+          [item.latitude, item.longitude],
+          [item.latitude, item.longitude]
+        ]
+      });
+      continue;
+    }
+    cluster.items.push(item);
+    const [sw, ne] = cluster.bounds;
+    sw[0] = Math.min(sw[0], item.latitude);
+    sw[1] = Math.min(sw[1], item.longitude);
+    ne[0] = Math.max(ne[0], item.latitude);
+    ne[1] = Math.max(ne[1], item.longitude);
+  }
+  return [...cells.values()];
+}
@@ -0,0 +1,117 @@
+import { MetricDefinition, MetricKey, SurveyAggregate, SurveyCity } from '../models/survey-city';
+import {
+  FieldRollup,
+  formatMetric,
+  metricThresholds,
+  readCoverage,
+  readMetric
+} from './metric-values';
+
+function metric(key: MetricKey, source: MetricDefinition['source']): MetricDefinition {
+  return { key, label: key, range: [0, 100], decimals: 1, source };
+}
+
+const DEFINITIONS = new Map<MetricKey, MetricDefinition>([
+  ['nps', metric('nps', { kind: 'survey', metric: 'nps' })],
+  ['csat', metric('csat', { kind: 'survey', metric: 'csat' })],
+  ['revenue', metric('revenue', { kind: 'field', field: 'revenue', aggregation: 'sum' })],
+  [
+    'index',
+    metric('index', {
+      kind: 'formula',
+      compute: ({ value }) => {
+        const nps = value('nps');
+        const csat = value('csat');
+        return nps === undefined || csat === undefined ? undefined : (nps + csat) / 2;
+      }
+    })
+  ],
+  ['loop', metric('loop', { kind: 'formula', compute: ({ value }) => value('loop') })]
+]);
+const definition = (key: MetricKey) => DEFINITIONS.get(key);
+
+const ROW: SurveyCity = {
+  city: 'Austin',
+  state: 'Texas',
+  country: 'USA',
+  latitude: 0,
+  longitude: 0,
+  nps: 20,
+  csat: 80,
+  responseCount: 50,
+  fields: { revenue: 1200 }
+};
+
+const STATE: SurveyAggregate = {
+  name: 'Texas',
+  country: 'USA',
+  latitude: 0,
+  longitude: 0,
+  nps: 30,
+  responseCount: 200,
+  level: 'state',
+  coverage: { nps: 150 },
+  fields: { revenue: { responses: 120, mean: 10, sum: 5000, min: 1, max: 40 } }
+};
+
+describe('readMetric', () => {
+  it('reads survey scores, fields and formulas', () => {
+    expect(readMetric(ROW, 'nps', definition)).toBe(20);
+    expect(readMetric(ROW, 'revenue', definition)).toBe(1200);
+    expect(readMetric(STATE, 'revenue', definition)).toBe(5000);
+    expect(readMetric(ROW, 'index', definition)).toBe(50);
+  });
+
+  it('is undefined for missing inputs, unknown metrics and formula loops', () => {
+    expect(readMetric(STATE, 'index', definition)).toBeUndefined();
+    expect(readMetric(ROW, 'profit', definition)).toBeUndefined();
+    expect(readMetric(ROW, 'loop', definition)).toBeUndefined();
+  });
+});
+
+describe('readCoverage', () => {
+  it('counts all of a row’s responses when it has a value', () => {
+    expect(readCoverage(ROW, 'nps', definition)).toBe(50);
+    expect(readCoverage(ROW, 'ces' as MetricKey, definition)).toBeUndefined();
+    expect(readCoverage({ ...ROW, csat: undefined }, 'csat', definition)).toBe(0);
+  });
+
+  it('counts an aggregate’s reporting responses, but not for formulas', () => {
+    expect(readCoverage(STATE, 'nps', definition)).toBe(150);
+    expect(readCoverage(STATE, 'csat', definition)).toBe(0);
+    expect(readCoverage(STATE, 'revenue', definition)).toBe(120);
+    expect(readCoverage(STATE, 'index', definition)).toBeUndefined();
+  });
+});
+
+describe('formatMetric and metricThresholds', () => {
+  it('format with the metric’s decimals', () => {
+    expect(formatMetric(12.345, definition('nps'))).toBe('12.3');
+    expect(formatMetric(undefined, definition('nps'))).toBe('—');
+  });
+
+  it('split the range into three bands unless the metric says otherwise', () => {
+    const nps = definition('nps')!;
+    expect(metricThresholds(nps)).toMatchObject({
+      domain: [0, 100],
+      midpoint: 50,
+      higherIsBetter: true
+    });
+    expect(metricThresholds(nps).cutoffs[0]).toBeCloseTo(33.33, 2);
+    expect(metricThresholds({ ...nps, thresholds: { higherIsBetter: false } }).higherIsBetter).toBe(
+      false
+    );
+  });
+});
+
+describe('FieldRollup', () => {
+  it('sums, weights and bounds the values it is given', () => {
+    const rollup = new FieldRollup();
+    rollup.add(10, 1);
+    rollup.add(40, 3);
+    rollup.add(undefined, 5);
+    rollup.add(NaN, 5);
+    expect(rollup.stats()).toEqual({ responses: 4, mean: 32.5, sum: 50, min: 10, max: 40 });
+    expect(new FieldRollup().stats()).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  FieldStats,
+  MetricDefinition,
+  MetricKey,
+  MetricThresholds,
+  SurveyAggregate,
+  SurveyCity
+} from '../models/survey-city';
+
+/** Formulas referring to each other in a loop give up after this many steps. */
+const MAX_FORMULA_DEPTH = 8;
+
+function finite(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Value of a metric for a row or aggregate: the survey score, the row's field (an aggregate's
+ * roll-up of it), or the formula over the item's other metrics. Undefined when missing.
+ */
+export function readMetric(
+  item: SurveyAggregate | SurveyCity,
+  metric: MetricKey,
+  definition: (key: MetricKey) => MetricDefinition | undefined,
+  depth = 0
+): number | undefined {
+  const source = definition(metric)?.source;
+  if (!source) return undefined;
+  switch (source.kind) {
+    case 'survey':
+      return finite(item[source.metric]);
+    case 'field': {
+      const field = item.fields?.[source.field];
+      return finite(typeof field === 'object' ? field[source.aggregation] : field);
+    }
+    case 'formula':
+      if (depth >= MAX_FORMULA_DEPTH) return undefined;
+      return finite(
+        source.compute({
+          value: (key) => readMetric(item, key, definition, depth + 1),
+          definition
+        })
+      );
+  }
+}
+
+/**
+ * Responses behind a metric's value: all of a row's responses when it has a value, the reporting
+ * responses of an aggregate. Undefined for a formula over an aggregate, whose inputs may each
+ * cover different responses.
+ */
+export function readCoverage(
+  item: SurveyAggregate | SurveyCity,
+  metric: MetricKey,
+  definition: (key: MetricKey) => MetricDefinition | undefined
+): number | undefined {
+  const source = definition(metric)?.source;
+  if (!source) return undefined;
+  if (!('level' in item)) return readMetric(item, metric, definition) === undefined ? 0 : item.responseCount;
+  switch (source.kind) {
+    case 'survey':
+      return item.coverage?.[source.metric] ?? 0;
+    case 'field':
+      return item.fields?.[source.field]?.responses ?? 0;
+    case 'formula':
+      return undefined;
+  }
+}
+
+/** A value with the metric's decimals; "—" when missing. */
+export function formatMetric(value: number | undefined, definition: MetricDefinition | undefined): string {
+  if (typeof value !== 'number' || Number.isNaN(value)) return '—';
+  return value.toFixed(definition?.decimals ?? 0);
+}
+
+/** The metric's color scale with unset parts filled in: three equal bands, higher is better. */
+export function metricThresholds(definition: MetricDefinition): MetricThresholds {
+  const [min, max] = definition.range;
+  const third = (max - min) / 3;
+  return {
+    cutoffs: [min + third, min + 2 * third],
+    higherIsBetter: true,
+    domain: [min, max],
+    midpoint: (min + max) / 2,
+    ...definition.thresholds
+  };
+}
+
+/** Running roll-up of one extra numeric field over many rows. */
+export class FieldRollup {
+  private sum = 0;
+  private weightedSum = 0;
+  private weight = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  add(value: number | undefined, weight: number): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+    this.sum += value;
+    this.weightedSum += value * weight;
+    this.weight += weight;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /** Undefined when no row had a value. */
+  stats(): FieldStats | undefined {
+    if (this.min === Infinity) return undefined;
+    const mean = this.weight > 0 ? this.weightedSum / this.weight : undefined;
+    return { responses: this.weight, mean, sum: this.sum, min: this.min, max: this.max };
+  }
+}
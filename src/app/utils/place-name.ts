@@ -0,0 +1,39 @@
+/**
+ * Normalize a place name for matching: lower-case, accents stripped,
+ * punctuation and spacing ignored ("São Paulo" → "saopaulo").
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/** Levenshtein edit distance between two strings. */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity of two already-normalized names in [0, 1]. A name that is a prefix of the
+ * other ("newyork" / "newyorkcity") scores 0.9; otherwise 1 − edit distance / longer length.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  if (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
@@ -0,0 +1,161 @@
+import * as L from 'leaflet';
+
+/** A drawn region that can be reached from the keyboard. */
+export interface FocusTarget {
+  key: string;
+  /** Short accessible name, e.g. "France". */
+  label: string;
+  /** Longer text announced on focus (score, sample, hints). */
+  description: string;
+  position: L.LatLng;
+  layer: L.Layer;
+}
+
+export interface RegionKeyboardNavEvents {
+  focus(target: FocusTarget, index: number, count: number): void;
+  blur(target: FocusTarget): void;
+  /** Enter or Space on a region. */
+  activate(target: FocusTarget): void;
+  /** Escape: go up a level; false when already at the top. */
+  escape(): boolean;
+}
+
+interface Handle {
+  target: FocusTarget;
+  marker: L.Marker;
+  element: HTMLElement;
+}
+
+const HANDLE_PX = 24;
+
+const DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowDown: [0, 1],
+  ArrowUp: [0, -1]
+};
+
+/**
+ * Keyboard access to the regions drawn on a Leaflet map. Each region gets an invisible
+ * focusable handle at its center, since canvas markers have no element of their own; mouse
+ * events pass through to the layers below. The handles form one tab stop (roving tabindex):
+ * Tab and Shift+Tab step through regions in label order and leave the map at either end,
+ * arrow keys move to the nearest region in that direction.
+ */
+export class RegionKeyboardNav {
+  private handles: Handle[] = [];
+  private activeKey: string | null = null;
+  /** Focus should land on the new regions once they are drawn (after Enter or Escape). */
+  private focusPending = false;
+
+  constructor(
+    private readonly map: L.Map,
+    private readonly events: RegionKeyboardNavEvents
+  ) {}
+
+  /**
+   * Replace the handles. Focus stays on the same region when it is still drawn, or moves
+   * to the first region when the focused one went away or a drill is pending.
+   */
+  setTargets(targets: FocusTarget[]): void {
+    const active = document.activeElement;
+    const hadFocus = this.focusPending || this.handles.some((h) => h.element === active);
+    this.clear();
+    const sorted = [...targets].sort((a, b) => a.label.localeCompare(b.label));
+    for (const target of sorted) this.handles.push(this.createHandle(target));
+    if (this.handles.length === 0) {
+      // Regions drawn later (e.g. polygons still loading) take over the focus.
+      this.focusPending = hadFocus;
+      return;
+    }
+    let index = this.handles.findIndex((h) => h.target.key === this.activeKey);
+    if (index < 0) index = 0;
+    this.setActive(index);
+    if (hadFocus) {
+      this.focusPending = false;
+      this.handles[index].element.focus({ preventScroll: true });
+    }
+  }
+
+  clear(): void {
+    for (const handle of this.handles) handle.marker.remove();
+    this.handles = [];
+  }
+
+  private createHandle(target: FocusTarget): Handle {
+    const marker = L.marker(target.position, {
+      icon: L.divIcon({
+        className: 'region-focus-handle',
+        html: '',
+        iconSize: [HANDLE_PX, HANDLE_PX]
+      }),
+      interactive: false,
+      keyboard: false
+    });
+    marker.addTo(this.map);
+    const element = marker.getElement()!;
+    element.style.pointerEvents = 'none';
+    element.style.outline = 'none';
+    element.tabIndex = -1;
+    element.setAttribute('role', 'button');
+    element.setAttribute('aria-label', target.label);
+    const handle: Handle = { target, marker, element };
+    element.addEventListener('focus', () => {
+      const index = this.handles.indexOf(handle);
+      if (index >= 0) this.setActive(index);
+      this.events.focus(target, index, this.handles.length);
+    });
+    element.addEventListener('blur', () => this.events.blur(target));
+    element.addEventListener('keydown', (event) => this.onKeyDown(event, handle));
+    return handle;
+  }
+
+  private onKeyDown(event: KeyboardEvent, handle: Handle): void {
+    const index = this.handles.findIndex((h) => h.element === handle.element);
+    let next = -1;
+    if (event.key === 'Tab') {
+      next = event.shiftKey ? index - 1 : index + 1;
+      // Past either end, let the browser move focus out of the map.
+      if (next < 0 || next >= this.handles.length) return;
+    } else if (event.key in DIRECTIONS) {
+      next = this.nearestInDirection(index, DIRECTIONS[event.key]);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      this.focusPending = true;
+      this.events.activate(handle.target);
+    } else if (event.key === 'Escape') {
+      if (!this.events.escape()) return;
+      this.focusPending = true;
+    } else {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    // The map pans to the region itself; scrolling would shift Leaflet's panes.
+    if (next >= 0) this.handles[next].element.focus({ preventScroll: true });
+  }
+
+  private setActive(index: number): void {
+    this.handles.forEach((h, i) => (h.element.tabIndex = i === index ? 0 : -1));
+    this.activeKey = this.handles[index]?.target.key ?? null;
+  }
+
+  /** Closest handle within 45° of the direction on screen, or the current one when none is. */
+  private nearestInDirection(index: number, [dx, dy]: [number, number]): number {
+    const from = this.map.latLngToContainerPoint(this.handles[index].target.position);
+    let best = index;
+    let bestScore = Infinity;
+    this.handles.forEach((h, i) => {
+      if (i === index) return;
+      const p = this.map.latLngToContainerPoint(h.target.position);
+      const along = (p.x - from.x) * dx + (p.y - from.y) * dy;
+      const across = Math.abs((p.x - from.x) * dy - (p.y - from.y) * dx);
+      if (along <= 0 || across > along) return;
+      const score = along + 2 * across;
+      if (score < bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+}
@@ -0,0 +1,76 @@
+import { SurveyCity } from '../models/survey-city';
+import { aggregateCities, rollupCities, rollupRegions } from './region-rollup';
+
+function row(city: string, state: string, country: string, overrides: Partial<SurveyCity> = {}): SurveyCity {
+  return { city, state, country, latitude: 0, longitude: 0, nps: 0, responseCount: 10, ...overrides };
+}
+
+const ROWS: SurveyCity[] = [
+  row('Austin', 'Texas', 'USA', { nps: 40, csat: 80, responseCount: 30, latitude: 30, longitude: -97 }),
+  row('Toronto', 'Ontario', 'Canada', { nps: 10, responseCount: 20 }),
+  row('Dallas', 'Texas', 'USA', { nps: 0, responseCount: 10, latitude: 34, longitude: -97 }),
+  row('Boston', 'Massachusetts', 'USA', { nps: -20, csat: 60, responseCount: 60, surveyDate: '2025-03-01' })
+];
+
+describe('rollupRegions', () => {
+  const rollup = rollupRegions(ROWS);
+
+  it('lists countries in first-seen order', () => {
+    expect(rollup.countries.map((c) => c.name)).toEqual(['USA', 'Canada']);
+  });
+
+  it('weights country scores by response count', () => {
+    const usa = rollup.countries[0];
+    expect(usa.responseCount).toBe(100);
+    expect(usa.nps).toBeCloseTo((40 * 30 + 0 * 10 - 20 * 60) / 100);
+    expect(usa.surveyDate).toBe('2025-03-01');
+    expect(usa.level).toBe('country');
+  });
+
+  it('averages a score only over the responses that reported it', () => {
+    const usa = rollup.countries[0];
+    expect(usa.csat).toBeCloseTo((80 * 30 + 60 * 60) / 90);
+    expect(usa.coverage).toEqual({ nps: 100, csat: 90 });
+    expect(rollup.countries[1].csat).toBeUndefined();
+  });
+
+  it('rolls up states within their country', () => {
+    const states = rollup.states.get('USA')!;
+    expect(states.map((s) => s.name)).toEqual(['Texas', 'Massachusetts']);
+    const texas = states[0];
+    expect(texas).toMatchObject({ country: 'USA', state: 'Texas', level: 'state', responseCount: 40 });
+    expect(texas.nps).toBeCloseTo((40 * 30) / 40);
+    expect(texas.latitude).toBeCloseTo((30 * 30 + 34 * 10) / 40);
+  });
+
+  it('matches rolling up each country on its own', () => {
+    const canada = rollupRegions(ROWS.filter((r) => r.country === 'Canada')).countries[0];
+    expect(rollup.countries[1]).toEqual(canada);
+  });
+
+  it('files rows without a state under their country', () => {
+    const stateless = rollupRegions([row('Singapore', '', 'Singapore')]);
+    expect(stateless.states.get('Singapore')!.map((s) => s.name)).toEqual(['Singapore']);
+  });
+
+  it('indexes the rows of each state', () => {
+    expect(rollupCities(rollup, ROWS, 'USA', 'Texas').map((r) => r.city)).toEqual(['Austin', 'Dallas']);
+    expect(rollupCities(rollup, ROWS, 'USA', null).map((r) => r.city)).toEqual(['Austin', 'Dallas', 'Boston']);
+    expect(rollupCities(rollup, ROWS, 'Mexico', null)).toEqual([]);
+    expect(rollupCities(rollup, ROWS, null, null)).toBe(ROWS);
+  });
+});
+
+describe('aggregateCities', () => {
+  it('combines the rows of one city across dates', () => {
+    const cities = aggregateCities([
+      row('Austin', 'Texas', 'USA', { nps: 50, responseCount: 10, surveyDate: '2025-01-01' }),
+      row('Austin', 'Texas', 'USA', { nps: 20, responseCount: 30, surveyDate: '2025-02-01' }),
+      row('Austin', 'Minnesota', 'USA', { nps: 0 })
+    ]);
+    expect(cities).toHaveLength(2);
+    expect(cities[0]).toMatchObject({ name: 'Austin', state: 'Texas', country: 'USA', level: 'city' });
+    expect(cities[0].responseCount).toBe(40);
+    expect(cities[0].nps).toBeCloseTo((50 * 10 + 20 * 30) / 40);
+  });
+});
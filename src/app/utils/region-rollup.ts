@@ -0,0 +1,199 @@
+import { DrillLevel, FieldStats, SurveyAggregate, SurveyCity, SurveyMetric } from '../models/survey-city';
+import { itemKey, placeKey } from './comparison';
+import { FieldRollup } from './metric-values';
+import {
+  MetricRollup,
+  collectConfidence,
+  collectCoverage,
+  collectDistribution
+} from './response-distribution';
+
+/**
+ * Country, state and city levels of a set of rows, built in one pass. Regions are listed in
+ * first-seen order. Cities are row indices into the rolled-up rows, so the result can cross a
+ * worker boundary and still hand back the caller's own row objects.
+ */
+export interface RegionRollup {
+  countries: SurveyAggregate[];
+  /** State aggregates by country. */
+  states: Map<string, SurveyAggregate[]>;
+  /** Row indices by country, then by state (the country for rows without one). */
+  cities: Map<string, Map<string, number[]>>;
+}
+
+/** Running totals for one region while aggregating. */
+interface AggregateTotals {
+  lat: number;
+  lng: number;
+  count: number;
+  date?: string;
+  metrics: Record<SurveyMetric, MetricRollup>;
+  /** Extra numeric fields by name, weighted by response count. */
+  fields: Map<string, FieldRollup>;
+}
+
+function createTotals(): AggregateTotals {
+  return {
+    lat: 0,
+    lng: 0,
+    count: 0,
+    metrics: { nps: new MetricRollup('nps'), csat: new MetricRollup('csat'), ces: new MetricRollup('ces') },
+    fields: new Map()
+  };
+}
+
+/**
+ * Add one city to the totals. Scores come from raw distributions when the row has them; a
+ * score the row does not report is left out rather than counted at a default.
+ */
+function addToTotals(totals: AggregateTotals, c: SurveyCity): void {
+  const count = c.responseCount;
+  totals.lat += c.latitude * count;
+  totals.lng += c.longitude * count;
+  totals.count += count;
+  totals.metrics.nps.add(c.nps, count, c.distribution?.nps);
+  totals.metrics.csat.add(c.csat, count, c.distribution?.csat);
+  totals.metrics.ces.add(c.ces, count, c.distribution?.ces);
+  for (const [name, value] of Object.entries(c.fields ?? {})) {
+    let rollup = totals.fields.get(name);
+    if (!rollup) totals.fields.set(name, (rollup = new FieldRollup()));
+    rollup.add(value, count);
+  }
+  if (c.surveyDate && (!totals.date || c.surveyDate > totals.date)) totals.date = c.surveyDate;
+}
+
+/** Roll-up of each extra field that had a value, or undefined when none did. */
+function collectFieldStats(fields: Map<string, FieldRollup>): Record<string, FieldStats> | undefined {
+  const out: Record<string, FieldStats> = {};
+  for (const [name, rollup] of fields) {
+    const stats = rollup.stats();
+    if (stats) out[name] = stats;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/** Scores and position shared by every aggregate. */
+function totalsToAggregateFields(totals: AggregateTotals) {
+  return {
+    latitude: totals.lat / totals.count,
+    longitude: totals.lng / totals.count,
+    nps: totals.metrics.nps.value(),
+    csat: totals.metrics.csat.value(),
+    ces: totals.metrics.ces.value(),
+    responseCount: totals.count,
+    coverage: collectCoverage(totals.metrics),
+    surveyDate: totals.date,
+    distribution: collectDistribution(totals.metrics),
+    confidence: collectConfidence(totals.metrics),
+    fields: collectFieldStats(totals.fields)
+  };
+}
+
+/** Response-weighted aggregate of any group of rows, e.g. a marker cluster. */
+export function aggregateRows(cities: SurveyCity[], name: string, level: DrillLevel): SurveyAggregate {
+  const totals = createTotals();
+  for (const c of cities) addToTotals(totals, c);
+  return { name, ...totalsToAggregateFields(totals), level };
+}
+
+/**
+ * One city-level aggregate per city, over all of its rows (dates, segments), for pairing
+ * cities across subsets. Cities are listed in first-seen order.
+ */
+export function aggregateCities(cities: SurveyCity[]): SurveyAggregate[] {
+  const byPlace = new Map<string, SurveyCity[]>();
+  for (const c of cities) {
+    const key = placeKey(c);
+    const rows = byPlace.get(key);
+    if (rows) rows.push(c);
+    else byPlace.set(key, [c]);
+  }
+  return [...byPlace.values()].map((rows) => ({
+    ...aggregateRows(rows, rows[0].city, 'city'),
+    country: rows[0].country,
+    state: rows[0].state
+  }));
+}
+
+/** One region of the hierarchy while rolling up. */
+interface RollupNode {
+  totals: AggregateTotals;
+  children: Map<string, RollupNode>;
+  rows: number[];
+}
+
+function createNode(): RollupNode {
+  return { totals: createTotals(), children: new Map(), rows: [] };
+}
+
+/** A row's region at each level below the world: its country, then its state. */
+function regionPath(c: SurveyCity): [string, string] {
+  return [c.country, c.state || c.country];
+}
+
+/** Roll rows up into countries and states, and index the cities of each state. */
+export function rollupRegions(cities: SurveyCity[]): RegionRollup {
+  const world = createNode();
+  cities.forEach((c, index) => {
+    let node = world;
+    for (const name of regionPath(c)) {
+      let child = node.children.get(name);
+      if (!child) node.children.set(name, (child = createNode()));
+      addToTotals(child.totals, c);
+      node = child;
+    }
+    node.rows.push(index);
+  });
+
+  const rollup: RegionRollup = { countries: [], states: new Map(), cities: new Map() };
+  for (const [country, countryNode] of world.children) {
+    rollup.countries.push({ name: country, ...totalsToAggregateFields(countryNode.totals), level: 'country' });
+    const states: SurveyAggregate[] = [];
+    const rows = new Map<string, number[]>();
+    for (const [state, stateNode] of countryNode.children) {
+      states.push({ name: state, country, state, ...totalsToAggregateFields(stateNode.totals), level: 'state' });
+      rows.set(state, stateNode.rows);
+    }
+    rollup.states.set(country, states);
+    rollup.cities.set(country, rows);
+  }
+  return rollup;
+}
+
+/**
+ * The rows of a country, or of one of its states, from a rollup of `rows`; all rows when no
+ * country is given.
+ */
+export function rollupCities(
+  rollup: RegionRollup,
+  rows: SurveyCity[],
+  country: string | null,
+  state: string | null
+): SurveyCity[] {
+  if (!country) return rows;
+  const byState = rollup.cities.get(country);
+  if (!byState) return [];
+  const indices = state ? (byState.get(state) ?? []) : [...byState.values()].flat().sort((a, b) => a - b);
+  return indices.map((i) => rows[i]);
+}
+
+/**
+ * `next` with every aggregate that is unchanged since `previous` replaced by the previous
+ * object, so that markers of untouched regions are kept when rows are streamed in.
+ */
+export function reuseUnchanged(previous: RegionRollup | null, next: RegionRollup): RegionRollup {
+  if (!previous) return next;
+  const old = new Map<string, { agg: SurveyAggregate; json: string }>();
+  for (const agg of [previous.countries, ...previous.states.values()].flat()) {
+    old.set(itemKey(agg), { agg, json: JSON.stringify(agg) });
+  }
+  const reuse = (agg: SurveyAggregate) => {
+    const entry = old.get(itemKey(agg));
+    return entry && entry.json === JSON.stringify(agg) ? entry.agg : agg;
+  };
+  return {
+    countries: next.countries.map(reuse),
+    states: new Map([...next.states].map(([country, states]) => [country, states.map(reuse)])),
+    cities: next.cities
+  };
+}
@@ -0,0 +1,80 @@
+import { SurveyCity } from '../models/survey-city';
+import { buildRegionIndex, regionContext, searchRegions } from './region-search';
+
+function row(city: string, state: string, country: string): SurveyCity {
+  return { city, state, country, latitude: 0, longitude: 0, nps: 0, responseCount: 10 };
+}
+
+const ROWS = [
+  row('New York', 'New York', 'USA'),
+  row('Yonkers', 'New York', 'USA'),
+  row('Paris', 'Texas', 'USA'),
+  row('Paris', 'Île-de-France', 'France'),
+  row('São Paulo', 'São Paulo', 'Brazil'),
+  row('Singapore', '', 'Singapore'),
+  row('Parisville', 'Michigan', 'USA')
+];
+
+const index = buildRegionIndex(ROWS, (country) => (country === 'USA' ? ['United States'] : []));
+
+function names(query: string): string[] {
+  return searchRegions(index, query).map((r) => `${r.kind}:${r.name}`);
+}
+
+describe('buildRegionIndex', () => {
+  it('lists each country, state and city once', () => {
+    expect(index.filter((e) => e.result.kind === 'state').map((e) => e.result.name)).toEqual([
+      'New York',
+      'Texas',
+      'Île-de-France',
+      'São Paulo',
+      'Michigan'
+    ]);
+    expect(index.filter((e) => e.result.name === 'New York')).toHaveLength(2);
+  });
+
+  it('drills into a stateless city through its country', () => {
+    const singapore = index.find((e) => e.result.kind === 'city' && e.result.name === 'Singapore');
+    expect(singapore?.result.state).toBe('Singapore');
+  });
+});
+
+describe('searchRegions', () => {
+  it('ranks exact names first, countries before states before cities', () => {
+    expect(names('new york')).toEqual(['state:New York', 'city:New York']);
+  });
+
+  it('ranks shorter names first among prefix matches', () => {
+    expect(names('pari')).toEqual(['city:Paris', 'city:Paris', 'city:Parisville']);
+  });
+
+  it('matches later words of a name and other country names', () => {
+    // "Yonkers" trails as a near miss of what has been typed so far.
+    expect(names('york')).toEqual(['state:New York', 'city:New York', 'city:Yonkers']);
+    expect(names('united')).toEqual(['country:USA']);
+  });
+
+  it('ignores accents and tolerates misspellings', () => {
+    expect(names('sao paulo')).toEqual(['state:São Paulo', 'city:São Paulo']);
+    expect(names('Sao Pualo')).toEqual(['state:São Paulo', 'city:São Paulo']);
+  });
+
+  it('finds nothing for blank or short unrelated queries', () => {
+    expect(names('  ')).toEqual([]);
+    expect(names('zz')).toEqual([]);
+  });
+
+  it('returns at most `limit` results', () => {
+    expect(searchRegions(index, 'pari', 2)).toHaveLength(2);
+    expect(searchRegions(index, 'paris', 1)).toHaveLength(1);
+  });
+});
+
+describe('regionContext', () => {
+  it('places states in their country and cities in their state', () => {
+    const [state, city] = searchRegions(index, 'new york');
+    expect(regionContext(state)).toBe('USA');
+    expect(regionContext(city)).toBe('New York, USA');
+    expect(regionContext(searchRegions(index, 'singapore')[0])).toBe('');
+  });
+});
@@ -0,0 +1,109 @@
+import { SurveyCity } from '../models/survey-city';
+import { nameSimilarity, normalizePlaceName } from './place-name';
+
+export type RegionKind = 'country' | 'state' | 'city';
+
+/**
+ * A place to drill to. `state` is the drill value for states and cities: the row's state, or
+ * its country when the row has none (as the state level groups them).
+ */
+export interface RegionSearchResult {
+  kind: RegionKind;
+  name: string;
+  country: string;
+  state: string | null;
+}
+
+interface IndexEntry {
+  result: RegionSearchResult;
+  /** Normalized name and other names (a country's "United Kingdom" for "UK"). */
+  names: string[];
+  /** Normalized words of those names, so "york" finds "New York". */
+  words: string[];
+}
+
+export type RegionSearchIndex = IndexEntry[];
+
+/** Minimum similarity for a misspelled query to match. */
+const FUZZY_THRESHOLD = 0.75;
+
+const KIND_ORDER: Record<RegionKind, number> = { country: 0, state: 1, city: 2 };
+
+export function regionResultKey(result: RegionSearchResult): string {
+  return `${result.kind}|${result.country}|${result.state ?? ''}|${result.name}`;
+}
+
+/** "Texas, United States" for a city in Texas; the country for a state; empty for a country. */
+export function regionContext(result: RegionSearchResult): string {
+  if (result.kind === 'country') return '';
+  if (result.kind === 'state' || !result.state || result.state === result.country) return result.country;
+  return `${result.state}, ${result.country}`;
+}
+
+/**
+ * Every country, state and city in the rows, once each. `countryNames` adds other names a
+ * country is searchable by, such as its full name when the data says "USA".
+ */
+export function buildRegionIndex(
+  rows: SurveyCity[],
+  countryNames: (country: string) => string[] = () => []
+): RegionSearchIndex {
+  const results = new Map<string, RegionSearchResult>();
+  const add = (result: RegionSearchResult) => {
+    const key = regionResultKey(result);
+    if (!results.has(key)) results.set(key, result);
+  };
+  for (const row of rows) {
+    if (!row.country) continue;
+    add({ kind: 'country', name: row.country, country: row.country, state: null });
+    if (row.state) add({ kind: 'state', name: row.state, country: row.country, state: row.state });
+    if (row.city) add({ kind: 'city', name: row.city, country: row.country, state: row.state || row.country });
+  }
+  return Array.from(results.values(), (result) => {
+    const names = [result.name, ...(result.kind === 'country' ? countryNames(result.name) : [])];
+    return {
+      result,
+      names: [...new Set(names.map(normalizePlaceName).filter(Boolean))],
+      words: names.flatMap((n) => n.split(/[\s,./-]+/).map(normalizePlaceName)).filter(Boolean)
+    };
+  });
+}
+
+/**
+ * Best matches for a typed query: exact names, then prefixes of the name or one of its words,
+ * then substrings, then misspellings ("Sao Pualo"). Ties go to countries, then states.
+ */
+export function searchRegions(index: RegionSearchIndex, query: string, limit = 8): RegionSearchResult[] {
+  const q = normalizePlaceName(query);
+  if (!q) return [];
+  const scored: { result: RegionSearchResult; score: number }[] = [];
+  for (const entry of index) {
+    const score = matchScore(entry, q);
+    if (score > 0) scored.push({ result: entry.result, score });
+  }
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      KIND_ORDER[a.result.kind] - KIND_ORDER[b.result.kind] ||
+      a.result.name.localeCompare(b.result.name)
+  );
+  return scored.slice(0, limit).map((s) => s.result);
+}
+
+function matchScore(entry: IndexEntry, q: string): number {
+  let best = 0;
+  for (const name of entry.names) best = Math.max(best, nameScore(name, q));
+  if (best < 0.85 && entry.words.some((w) => w.startsWith(q))) best = 0.85;
+  return best;
+}
+
+function nameScore(name: string, q: string): number {
+  if (name === q) return 1;
+  // Shorter names rank first among prefix matches ("Paris" before "Parisville").
+  if (name.startsWith(q)) return 0.9 + 0.05 * (q.length / name.length);
+  if (q.length >= 3 && name.includes(q)) return 0.8;
+  if (q.length < 3) return 0;
+  // Compare against the name's start too, so a misspelling matches while still typing.
+  const similarity = Math.max(nameSimilarity(q, name), nameSimilarity(q, name.slice(0, q.length)));
+  return similarity >= FUZZY_THRESHOLD ? 0.7 * similarity : 0;
+}
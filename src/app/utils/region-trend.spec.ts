@@ -0,0 +1,66 @@
+import { SurveyCity } from '../models/survey-city';
+import { regionTrend, sparklinePath, sparklinePoints, trendGranularity } from './region-trend';
+
+function row(surveyDate: string | undefined, nps: number, responseCount = 100): SurveyCity {
+  return {
+    city: 'Austin',
+    state: 'Texas',
+    country: 'USA',
+    latitude: 0,
+    longitude: 0,
+    nps,
+    responseCount,
+    surveyDate
+  };
+}
+
+describe('trendGranularity', () => {
+  it('picks longer periods for longer spans of surveys', () => {
+    expect(trendGranularity([row('2025-01-01', 0), row('2025-03-01', 0)])).toBe('week');
+    expect(trendGranularity([row('2025-01-01', 0), row('2025-12-01', 0)])).toBe('month');
+    expect(trendGranularity([row('2022-01-01', 0), row('2025-01-01', 0)])).toBe('quarter');
+    expect(trendGranularity([])).toBe('week');
+  });
+});
+
+describe('regionTrend', () => {
+  it('pools each period’s rows by responses and leaves empty periods blank', () => {
+    const trend = regionTrend(
+      [
+        row('2025-01-05', 10, 100),
+        row('2025-01-20', 40, 300),
+        row('2025-03-10', -20, 50),
+        row(undefined, 90, 1000)
+      ],
+      'month'
+    );
+    expect(trend.periods.map((p) => p.start)).toEqual([
+      '2025-01-01T00:00:00.000Z',
+      '2025-02-01T00:00:00.000Z',
+      '2025-03-01T00:00:00.000Z'
+    ]);
+    expect(trend.values.nps).toEqual([32.5, undefined, -20]);
+    expect(trend.values.csat).toEqual([undefined, undefined, undefined]);
+    expect(trend.responses).toEqual([400, 0, 50]);
+  });
+});
+
+describe('sparklinePoints and sparklinePath', () => {
+  it('spread periods over the width and values over the height, skipping gaps', () => {
+    const points = sparklinePoints([0, undefined, 10], 100, 20);
+    expect(points).toEqual([
+      { x: 0, y: 20, value: 0, index: 0 },
+      { x: 100, y: 0, value: 10, index: 2 }
+    ]);
+    expect(sparklinePath(points)).toBe('M0 20L100 0');
+  });
+
+  it('center a single or flat series', () => {
+    expect(sparklinePoints([5], 100, 20)).toEqual([{ x: 50, y: 10, value: 5, index: 0 }]);
+    expect(sparklinePoints([undefined], 100, 20)).toEqual([]);
+  });
+
+  it('scale to a given range', () => {
+    expect(sparklinePoints([0], 100, 20, [-100, 100])[0].y).toBe(10);
+  });
+});
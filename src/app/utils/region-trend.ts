@@ -0,0 +1,113 @@
+import { PeriodGranularity, SurveyCity, SurveyMetric, SurveyPeriod } from '../models/survey-city';
+import { MetricRollup } from './response-distribution';
+import { buildPeriods, surveyDateExtent } from './survey-period';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Pooled scores per period, oldest first; undefined where a period has no score. */
+export interface RegionTrend {
+  periods: SurveyPeriod[];
+  values: Record<SurveyMetric, (number | undefined)[]>;
+  responses: number[];
+}
+
+/** Weeks for up to three months of surveys, months for up to two years, quarters beyond. */
+export function trendGranularity(rows: SurveyCity[]): PeriodGranularity {
+  const extent = surveyDateExtent(rows);
+  const days = extent ? (extent.max.getTime() - extent.min.getTime()) / DAY_MS : 0;
+  if (days <= 92) return 'week';
+  if (days <= 731) return 'month';
+  return 'quarter';
+}
+
+/**
+ * Scores of a region per period, pooled the way aggregates are (raw distributions where
+ * rows have them, otherwise response-weighted). Rows without a survey date are left out.
+ */
+export function regionTrend(rows: SurveyCity[], granularity = trendGranularity(rows)): RegionTrend {
+  const periods = buildPeriods(rows, granularity);
+  const rollups = periods.map(() => ({
+    nps: new MetricRollup('nps'),
+    csat: new MetricRollup('csat'),
+    ces: new MetricRollup('ces')
+  }));
+  const responses = periods.map(() => 0);
+  const starts = periods.map((p) => new Date(p.start).getTime());
+  for (const row of rows) {
+    const t = row.surveyDate ? new Date(row.surveyDate).getTime() : NaN;
+    if (Number.isNaN(t)) continue;
+    const i = lastIndexAtOrBefore(starts, t);
+    if (i < 0) continue;
+    responses[i] += row.responseCount;
+    for (const metric of ['nps', 'csat', 'ces'] as const) {
+      rollups[i][metric].add(row[metric], row.responseCount, row.distribution?.[metric]);
+    }
+  }
+  return {
+    periods,
+    values: {
+      nps: rollups.map((r) => r.nps.value()),
+      csat: rollups.map((r) => r.csat.value()),
+      ces: rollups.map((r) => r.ces.value())
+    },
+    responses
+  };
+}
+
+/** Index of the last sorted start at or before `t`. */
+function lastIndexAtOrBefore(starts: number[], t: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (starts[mid] <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** A defined value placed on a sparkline; `index` is its period. */
+export interface SparklinePoint {
+  x: number;
+  y: number;
+  value: number;
+  index: number;
+}
+
+/**
+ * Positions of the defined values on a `width` × `height` sparkline over [min, max] (the
+ * values' own range by default). Periods keep their place on the x axis, so gaps show.
+ */
+export function sparklinePoints(
+  values: (number | undefined)[],
+  width: number,
+  height: number,
+  range?: [number, number]
+): SparklinePoint[] {
+  const defined = values.filter((v): v is number => v !== undefined);
+  if (defined.length === 0) return [];
+  const [min, max] = range ?? [Math.min(...defined), Math.max(...defined)];
+  const span = max - min || 1;
+  const x = (i: number) => (values.length > 1 ? (i / (values.length - 1)) * width : width / 2);
+  const points: SparklinePoint[] = [];
+  values.forEach((value, index) => {
+    if (value === undefined) return;
+    const y = max === min ? height / 2 : height - ((value - min) / span) * height;
+    points.push({ x: round(x(index)), y: round(y), value, index });
+  });
+  return points;
+}
+
+/** SVG path joining the points; empty periods are bridged. */
+export function sparklinePath(points: SparklinePoint[]): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join('');
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
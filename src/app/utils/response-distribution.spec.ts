@@ -0,0 +1,101 @@
+import { MetricRollup, npsBreakdown, scoreFromDistribution } from './response-distribution';
+
+/** An 11-bucket NPS distribution with the given counts at single scores. */
+function npsBuckets(counts: Record<number, number>): number[] {
+  return Array.from({ length: 11 }, (_, score) => counts[score] ?? 0);
+}
+
+describe('scoreFromDistribution', () => {
+  it('scores NPS as % promoters minus % detractors', () => {
+    // 5 promoters, 3 passives, 2 detractors: 50% − 20%.
+    expect(scoreFromDistribution('nps', npsBuckets({ 10: 3, 9: 2, 8: 2, 7: 1, 6: 1, 0: 1 }))).toBe(30);
+  });
+
+  it('scores CSAT as the top-two-box share', () => {
+    expect(scoreFromDistribution('csat', [1, 1, 0, 1, 1])).toBe(50);
+  });
+
+  it('is undefined without responses', () => {
+    expect(scoreFromDistribution('nps', npsBuckets({}))).toBeUndefined();
+  });
+});
+
+describe('npsBreakdown', () => {
+  it('splits 0–6, 7–8 and 9–10', () => {
+    expect(npsBreakdown(npsBuckets({ 6: 4, 7: 2, 8: 1, 9: 3 }))).toEqual({
+      promoters: 3,
+      passives: 3,
+      detractors: 4,
+      total: 10
+    });
+  });
+});
+
+describe('MetricRollup', () => {
+  it('pools distributions response by response', () => {
+    const rollup = new MetricRollup('nps');
+    rollup.add(100, 2, npsBuckets({ 10: 2 }));
+    rollup.add(-100, 6, npsBuckets({ 0: 6 }));
+    // 2 promoters and 6 detractors out of 8, not the mean of the two row scores.
+    expect(rollup.value()).toBe(-50);
+    expect(rollup.responses()).toBe(8);
+    expect(rollup.distribution()).toEqual(npsBuckets({ 10: 2, 0: 6 }));
+  });
+
+  it('weights summary-only rows by their response count', () => {
+    const rollup = new MetricRollup('csat');
+    rollup.add(80, 30);
+    rollup.add(40, 10);
+    expect(rollup.value()).toBe(70);
+    expect(rollup.responses()).toBe(40);
+    expect(rollup.distribution()).toBeUndefined();
+  });
+
+  it('mixes distribution rows with summary rows', () => {
+    const rollup = new MetricRollup('nps');
+    rollup.add(undefined, 4, npsBuckets({ 9: 4 }));
+    rollup.add(-20, 16);
+    expect(rollup.value()).toBeCloseTo((4 * 100 + 16 * -20) / 20);
+    expect(rollup.responses()).toBe(20);
+  });
+
+  it('leaves out rows that do not report the metric', () => {
+    const rollup = new MetricRollup('csat');
+    rollup.add(undefined, 50);
+    rollup.add(Number.NaN, 50);
+    rollup.add(60, 10);
+    expect(rollup.value()).toBe(60);
+    expect(rollup.responses()).toBe(10);
+  });
+
+  it('has no value when nothing reported it', () => {
+    const rollup = new MetricRollup('nps');
+    rollup.add(undefined, 10);
+    expect(rollup.value()).toBeUndefined();
+    expect(rollup.confidence()).toBeUndefined();
+  });
+
+  it('gives a 95% interval from the pooled variance', () => {
+    const rollup = new MetricRollup('csat');
+    // 50 of 100 satisfied: sd 50, so the margin is 1.96 · 50 / 10.
+    rollup.add(50, 100);
+    const confidence = rollup.confidence()!;
+    expect(confidence.moe).toBeCloseTo(9.8);
+    expect(confidence.low).toBeCloseTo(40.2);
+    expect(confidence.high).toBeCloseTo(59.8);
+    expect(confidence.n).toBe(100);
+  });
+
+  it('clamps the interval to the metric range', () => {
+    const rollup = new MetricRollup('nps');
+    rollup.add(95, 4);
+    expect(rollup.confidence()!.high).toBe(100);
+  });
+
+  it('gives no interval for summary-only CES', () => {
+    const rollup = new MetricRollup('ces');
+    rollup.add(5, 100);
+    expect(rollup.value()).toBe(5);
+    expect(rollup.confidence()).toBeUndefined();
+  });
+});
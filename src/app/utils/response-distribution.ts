@@ -0,0 +1,175 @@
+import { MetricConfidence, ResponseDistribution, SurveyMetric } from '../models/survey-city';
+import { FIELD_RANGES } from './survey-validation';
+
+/** Lowest score and bucket count of each metric's raw response scale. */
+export const DISTRIBUTION_SCALES: Record<SurveyMetric, { min: number; buckets: number }> = {
+  nps: { min: 0, buckets: 11 },
+  csat: { min: 1, buckets: 5 },
+  ces: { min: 1, buckets: 7 }
+};
+
+/**
+ * What one response in a bucket contributes to the metric's score:
+ * NPS promoters (9–10) +100, detractors (0–6) −100, passives 0;
+ * CSAT top-two-box (4–5) 100, otherwise 0; CES the raw 1–7 score.
+ * Each score is then the mean contribution over all responses.
+ */
+function bucketValue(metric: SurveyMetric, index: number): number {
+  const score = DISTRIBUTION_SCALES[metric].min + index;
+  switch (metric) {
+    case 'nps':
+      return score >= 9 ? 100 : score <= 6 ? -100 : 0;
+    case 'csat':
+      return score >= 4 ? 100 : 0;
+    case 'ces':
+      return score;
+  }
+}
+
+export function distributionTotal(buckets: number[]): number {
+  return buckets.reduce((sum, n) => sum + n, 0);
+}
+
+/** Score computed from raw bucket counts (NPS: %promoters − %detractors, etc.). */
+export function scoreFromDistribution(metric: SurveyMetric, buckets: number[]): number | undefined {
+  const total = distributionTotal(buckets);
+  if (total === 0) return undefined;
+  return buckets.reduce((sum, n, i) => sum + n * bucketValue(metric, i), 0) / total;
+}
+
+/** Promoter / passive / detractor counts from an 11-bucket NPS distribution. */
+export function npsBreakdown(buckets: number[]): { promoters: number; passives: number; detractors: number; total: number } {
+  let promoters = 0;
+  let passives = 0;
+  let detractors = 0;
+  buckets.forEach((n, score) => {
+    if (score >= 9) promoters += n;
+    else if (score >= 7) passives += n;
+    else detractors += n;
+  });
+  return { promoters, passives, detractors, total: promoters + passives + detractors };
+}
+
+/**
+ * Share of detractors (0–1). Exact from an NPS distribution; from the score alone it assumes
+ * no passives, which makes it an upper bound. Undefined when there is neither.
+ */
+export function detractorShare(nps: number | undefined, buckets?: number[]): number | undefined {
+  if (buckets) {
+    const { detractors, total } = npsBreakdown(buckets);
+    if (total > 0) return detractors / total;
+  }
+  if (typeof nps !== 'number' || Number.isNaN(nps)) return undefined;
+  return Math.min(1, Math.max(0, (1 - nps / 100) / 2));
+}
+
+/** z-score for a two-sided 95% confidence interval. */
+export const Z_95 = 1.96;
+
+/**
+ * Second moment (mean of squared per-response values) implied by a summary-only score.
+ * CSAT is a top-two-box share, so each response is 0 or 100 and E[x²] = 100·score exactly.
+ * NPS responses are −100, 0 or +100; without the passive share we assume none, which gives
+ * the widest (most conservative) interval. CES cannot be bounded usefully, so it is unknown.
+ */
+function summarySecondMoment(metric: SurveyMetric, summary: number): number | null {
+  switch (metric) {
+    case 'nps':
+      return 100 * 100;
+    case 'csat':
+      return 100 * summary;
+    case 'ces':
+      return null;
+  }
+}
+
+/**
+ * Running rollup of one metric over many rows. Rows with a raw distribution are pooled
+ * response by response; rows with only a summary score count as `weight` responses at
+ * that score (the previous weighted-average behavior), so mixed data still rolls up.
+ */
+export class MetricRollup {
+  private buckets: number[] | null = null;
+  private sum = 0;
+  private sumSq = 0;
+  private weight = 0;
+  /** False once a row contributed without a known second moment (no interval possible). */
+  private varianceKnown = true;
+
+  constructor(private readonly metric: SurveyMetric) {}
+
+  add(summary: number | undefined, weight: number, buckets?: number[]): void {
+    if (buckets && distributionTotal(buckets) > 0) {
+      this.buckets = this.buckets ? this.buckets.map((n, i) => n + (buckets[i] ?? 0)) : buckets.slice();
+      buckets.forEach((n, i) => {
+        const v = bucketValue(this.metric, i);
+        this.sum += n * v;
+        this.sumSq += n * v * v;
+        this.weight += n;
+      });
+    } else if (typeof summary === 'number' && !Number.isNaN(summary) && weight > 0) {
+      this.sum += summary * weight;
+      this.weight += weight;
+      const moment = summarySecondMoment(this.metric, summary);
+      if (moment === null) this.varianceKnown = false;
+      else this.sumSq += moment * weight;
+    }
+  }
+
+  /** 95% margin of error and interval of the pooled score; undefined when it cannot be estimated. */
+  confidence(): MetricConfidence | undefined {
+    const mean = this.value();
+    if (mean === undefined || !this.varianceKnown) return undefined;
+    const variance = Math.max(0, this.sumSq / this.weight - mean * mean);
+    const moe = Z_95 * Math.sqrt(variance / this.weight);
+    const [min, max] = FIELD_RANGES[this.metric];
+    return { moe, low: Math.max(min, mean - moe), high: Math.min(max, mean + moe), n: this.weight };
+  }
+
+  /** Pooled score, or undefined when nothing was added. */
+  value(): number | undefined {
+    return this.weight > 0 ? this.sum / this.weight : undefined;
+  }
+
+  /** Responses the score was rolled up over: bucket counts, plus the weight of summary rows. */
+  responses(): number {
+    return this.weight;
+  }
+
+  /** Summed buckets of the rows that had a distribution. */
+  distribution(): number[] | undefined {
+    return this.buckets ?? undefined;
+  }
+}
+
+/** Confidence for each metric where it can be estimated. */
+export function collectConfidence(
+  rollups: Record<SurveyMetric, MetricRollup>
+): Partial<Record<SurveyMetric, MetricConfidence>> {
+  const out: Partial<Record<SurveyMetric, MetricConfidence>> = {};
+  for (const metric of Object.keys(rollups) as SurveyMetric[]) {
+    const confidence = rollups[metric].confidence();
+    if (confidence) out[metric] = confidence;
+  }
+  return out;
+}
+
+/** Responses behind each metric that had any. */
+export function collectCoverage(rollups: Record<SurveyMetric, MetricRollup>): Partial<Record<SurveyMetric, number>> {
+  const out: Partial<Record<SurveyMetric, number>> = {};
+  for (const metric of Object.keys(rollups) as SurveyMetric[]) {
+    const responses = rollups[metric].responses();
+    if (responses > 0) out[metric] = responses;
+  }
+  return out;
+}
+
+/** Collect the per-metric summed distributions of a set of rollups, if any. */
+export function collectDistribution(rollups: Record<SurveyMetric, MetricRollup>): ResponseDistribution | undefined {
+  const out: ResponseDistribution = {};
+  for (const metric of Object.keys(rollups) as SurveyMetric[]) {
+    const buckets = rollups[metric].distribution();
+    if (buckets) out[metric] = buckets;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
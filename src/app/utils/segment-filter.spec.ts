@@ -0,0 +1,59 @@
+import { SurveyCity } from '../models/survey-city';
+import {
+  dimensionValues,
+  filterBySegments,
+  hasSegmentFilter,
+  segmentFilterLabel
+} from './segment-filter';
+
+function row(city: string, dimensions?: Record<string, string>): SurveyCity {
+  return {
+    city,
+    state: 'Texas',
+    country: 'USA',
+    latitude: 0,
+    longitude: 0,
+    nps: 0,
+    responseCount: 10,
+    dimensions
+  };
+}
+
+const ROWS = [
+  row('Austin', { product: 'Web', tier: 'gold' }),
+  row('Dallas', { product: 'Mobile', tier: 'silver' }),
+  row('Houston', { product: 'Web' }),
+  row('El Paso')
+];
+
+describe('dimensionValues', () => {
+  it('lists dimensions and their distinct values, sorted', () => {
+    expect(dimensionValues(ROWS)).toEqual([
+      { name: 'product', values: ['Mobile', 'Web'] },
+      { name: 'tier', values: ['gold', 'silver'] }
+    ]);
+  });
+});
+
+describe('filterBySegments', () => {
+  it('keeps rows matching any selected value of every filtered dimension', () => {
+    const cities = (filter: Record<string, string[]>) =>
+      filterBySegments(ROWS, filter).map((c) => c.city);
+    expect(cities({ product: ['Web', 'Mobile'] })).toEqual(['Austin', 'Dallas', 'Houston']);
+    expect(cities({ product: ['Web'], tier: ['gold'] })).toEqual(['Austin']);
+  });
+
+  it('passes every row through an empty filter', () => {
+    expect(hasSegmentFilter({ product: [] })).toBe(false);
+    expect(filterBySegments(ROWS, { product: [] })).toBe(ROWS);
+    expect(filterBySegments(ROWS, undefined)).toBe(ROWS);
+  });
+});
+
+describe('segmentFilterLabel', () => {
+  it('names each filtered dimension with its values', () => {
+    expect(segmentFilterLabel({ product: ['Mobile', 'Web'], tier: [], region: ['EU'] })).toBe(
+      'product: Mobile, Web · region: EU'
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { SegmentFilter, SurveyCity } from '../models/survey-city';
+
+/** Every dimension in the data with its distinct values, both sorted. */
+export function dimensionValues(cities: SurveyCity[]): { name: string; values: string[] }[] {
+  const byName = new Map<string, Set<string>>();
+  for (const c of cities) {
+    for (const [name, value] of Object.entries(c.dimensions ?? {})) {
+      let values = byName.get(name);
+      if (!values) {
+        values = new Set();
+        byName.set(name, values);
+      }
+      values.add(value);
+    }
+  }
+  return [...byName.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, values]) => ({ name, values: [...values].sort((a, b) => a.localeCompare(b)) }));
+}
+
+/** True when the filter selects anything. */
+export function hasSegmentFilter(filter: SegmentFilter | undefined): boolean {
+  return !!filter && Object.values(filter).some((values) => values.length > 0);
+}
+
+/**
+ * Keep rows matching every filtered dimension (any of its selected values). Rows without
+ * a value for a filtered dimension are dropped.
+ */
+export function filterBySegments(cities: SurveyCity[], filter: SegmentFilter | undefined): SurveyCity[] {
+  if (!filter || !hasSegmentFilter(filter)) return cities;
+  const active = Object.entries(filter)
+    .filter(([, values]) => values.length > 0)
+    .map(([name, values]) => [name, new Set(values)] as const);
+  return cities.filter((c) => active.every(([name, values]) => values.has(c.dimensions?.[name] ?? '')));
+}
+
+/** Short label for a filter, e.g. "product: Mobile, Web". */
+export function segmentFilterLabel(filter: SegmentFilter): string {
+  return Object.entries(filter)
+    .filter(([, values]) => values.length > 0)
+    .map(([name, values]) => `${name}: ${values.join(', ')}`)
+    .join(' · ');
+}
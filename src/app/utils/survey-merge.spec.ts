@@ -0,0 +1,37 @@
+import { SurveyCity } from '../models/survey-city';
+import { mergeSurveyRows } from './survey-merge';
+
+function row(city: string, nps: number, surveyDate?: string): SurveyCity {
+  return {
+    city,
+    state: 'Texas',
+    country: 'USA',
+    latitude: 0,
+    longitude: 0,
+    nps,
+    responseCount: 10,
+    surveyDate
+  };
+}
+
+describe('mergeSurveyRows', () => {
+  const austin = row('Austin', 10, '2025-03-01');
+  const dallas = row('Dallas', 20);
+  const rows = [austin, dallas];
+
+  it('replaces rows with the same key in place and appends the rest', () => {
+    const update = row('Austin', 40, '2025-03-01');
+    const laterAustin = row('Austin', 5, '2025-04-01');
+    expect(mergeSurveyRows(rows, [laterAustin, update])).toEqual([update, dallas, laterAustin]);
+  });
+
+  it('keeps untouched rows and the array itself when nothing changes', () => {
+    const merged = mergeSurveyRows(rows, [row('Dallas', 25)]);
+    expect(merged[0]).toBe(austin);
+    expect(mergeSurveyRows(rows, [])).toBe(rows);
+  });
+
+  it('keeps the last of several updates to one row', () => {
+    expect(mergeSurveyRows([], [row('Dallas', 1), row('Dallas', 2)])).toEqual([row('Dallas', 2)]);
+  });
+});
@@ -0,0 +1,21 @@
+import { SurveyCity } from '../models/survey-city';
+import { itemKey } from './comparison';
+
+/**
+ * Apply streamed rows: a row with the `itemKey` (city, survey date and segment tags) of an
+ * existing one replaces it in place, any other row is appended. Untouched rows keep their
+ * object identity, so memoized aggregates of regions without changes can be reused.
+ */
+export function mergeSurveyRows(rows: SurveyCity[], updates: SurveyCity[]): SurveyCity[] {
+  if (updates.length === 0) return rows;
+  const byKey = new Map<string, SurveyCity>();
+  for (const row of updates) byKey.set(itemKey(row), row);
+  const merged = rows.map((row) => {
+    const key = itemKey(row);
+    const update = byKey.get(key);
+    if (!update) return row;
+    byKey.delete(key);
+    return update;
+  });
+  return merged.concat([...byKey.values()]);
+}
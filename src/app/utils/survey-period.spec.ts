@@ -0,0 +1,91 @@
+import { SurveyCity } from '../models/survey-city';
+import {
+  buildPeriods,
+  dateInputToEnd,
+  dateInputToStart,
+  endToDateInput,
+  filterByDateRange,
+  periodStart,
+  startToDateInput,
+  surveyDateExtent
+} from './survey-period';
+
+function row(city: string, surveyDate?: string): SurveyCity {
+  return { city, state: '', country: 'USA', latitude: 0, longitude: 0, nps: 0, responseCount: 10, surveyDate };
+}
+
+const ROWS = [
+  row('Austin', '2025-02-14T10:00:00Z'),
+  row('Dallas', '2025-05-01T00:00:00Z'),
+  row('Boston'),
+  row('Denver', 'not a date')
+];
+
+describe('periodStart', () => {
+  it('starts weeks on Monday, in UTC', () => {
+    const weekOf = (iso: string) => periodStart(new Date(iso), 'week').toISOString();
+    // Sunday 2025-03-02 belongs to the week of Monday 2025-02-24.
+    expect(weekOf('2025-03-02T23:00:00Z')).toBe('2025-02-24T00:00:00.000Z');
+    expect(weekOf('2025-03-03T00:00:00Z')).toBe('2025-03-03T00:00:00.000Z');
+  });
+
+  it('starts months and quarters on their first day', () => {
+    const date = new Date('2025-08-19T12:00:00Z');
+    expect(periodStart(date, 'month').toISOString()).toBe('2025-08-01T00:00:00.000Z');
+    expect(periodStart(date, 'quarter').toISOString()).toBe('2025-07-01T00:00:00.000Z');
+  });
+});
+
+describe('surveyDateExtent', () => {
+  it('spans the valid dates only', () => {
+    const extent = surveyDateExtent(ROWS)!;
+    expect(extent.min.toISOString()).toBe('2025-02-14T10:00:00.000Z');
+    expect(extent.max.toISOString()).toBe('2025-05-01T00:00:00.000Z');
+    expect(surveyDateExtent([row('Boston')])).toBeNull();
+  });
+});
+
+describe('buildPeriods', () => {
+  it('covers the extent with contiguous periods, oldest first', () => {
+    const periods = buildPeriods(ROWS, 'quarter');
+    expect(periods.map((p) => p.label)).toEqual(['Q1 2025', 'Q2 2025']);
+    expect(periods[0].end).toBe(periods[1].start);
+    expect(periods[1].end).toBe('2025-07-01T00:00:00.000Z');
+  });
+
+  it('includes months without surveys between the first and last', () => {
+    expect(buildPeriods(ROWS, 'month')).toHaveLength(4);
+  });
+
+  it('is empty without dates', () => {
+    expect(buildPeriods([row('Boston')], 'week')).toEqual([]);
+  });
+});
+
+describe('filterByDateRange', () => {
+  it('returns every row for an open range', () => {
+    expect(filterByDateRange(ROWS, { start: null, end: null })).toBe(ROWS);
+  });
+
+  it('keeps rows in [start, end) and drops undated ones', () => {
+    const q2 = { start: '2025-04-01T00:00:00.000Z', end: '2025-05-01T00:00:00.000Z' };
+    expect(filterByDateRange(ROWS, q2)).toEqual([]);
+    const from = filterByDateRange(ROWS, { start: '2025-05-01T00:00:00.000Z', end: null });
+    expect(from.map((c) => c.city)).toEqual(['Dallas']);
+  });
+});
+
+describe('date inputs', () => {
+  it('turn an inclusive end date into an exclusive bound and back', () => {
+    expect(dateInputToStart('2025-03-01')).toBe('2025-03-01T00:00:00.000Z');
+    expect(dateInputToEnd('2025-03-31')).toBe('2025-04-01T00:00:00.000Z');
+    expect(startToDateInput(dateInputToStart('2025-03-01'))).toBe('2025-03-01');
+    expect(endToDateInput(dateInputToEnd('2025-03-31'))).toBe('2025-03-31');
+  });
+
+  it('map empty values to open bounds', () => {
+    expect(dateInputToStart('')).toBeNull();
+    expect(dateInputToEnd('')).toBeNull();
+    expect(endToDateInput(null)).toBe('');
+  });
+});
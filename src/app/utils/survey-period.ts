@@ -0,0 +1,127 @@
+import { SurveyCity, DateRange, PeriodGranularity, SurveyPeriod } from '../models/survey-city';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the period (UTC) containing the given date. Weeks start on Monday. */
+export function periodStart(date: Date, granularity: PeriodGranularity): Date {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  switch (granularity) {
+    case 'week': {
+      const dayStart = Date.UTC(y, m, date.getUTCDate());
+      const offset = (date.getUTCDay() + 6) % 7;
+      return new Date(dayStart - offset * DAY_MS);
+    }
+    case 'month':
+      return new Date(Date.UTC(y, m, 1));
+    case 'quarter':
+      return new Date(Date.UTC(y, m - (m % 3), 1));
+  }
+}
+
+/** Start of the period following the one that starts at `start`. */
+function nextPeriodStart(start: Date, granularity: PeriodGranularity): Date {
+  const y = start.getUTCFullYear();
+  const m = start.getUTCMonth();
+  switch (granularity) {
+    case 'week':
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(y, m + 1, 1));
+    case 'quarter':
+      return new Date(Date.UTC(y, m + 3, 1));
+  }
+}
+
+function periodLabel(start: Date, granularity: PeriodGranularity): string {
+  const y = start.getUTCFullYear();
+  switch (granularity) {
+    case 'week':
+      return `Week of ${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`;
+    case 'month':
+      return start.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+    case 'quarter':
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${y}`;
+  }
+}
+
+/** Parse an ISO survey date; returns null for missing or invalid values. */
+function parseSurveyDate(iso?: string): Date | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** Earliest and latest survey dates in the data, or null when no row has a valid date. */
+export function surveyDateExtent(cities: SurveyCity[]): { min: Date; max: Date } | null {
+  let min: number | null = null;
+  let max: number | null = null;
+  for (const c of cities) {
+    const d = parseSurveyDate(c.surveyDate);
+    if (!d) continue;
+    const t = d.getTime();
+    if (min === null || t < min) min = t;
+    if (max === null || t > max) max = t;
+  }
+  return min === null || max === null ? null : { min: new Date(min), max: new Date(max) };
+}
+
+/** Contiguous periods covering every survey date in the data, oldest first. */
+export function buildPeriods(cities: SurveyCity[], granularity: PeriodGranularity): SurveyPeriod[] {
+  const extent = surveyDateExtent(cities);
+  if (!extent) return [];
+  const periods: SurveyPeriod[] = [];
+  let start = periodStart(extent.min, granularity);
+  while (start.getTime() <= extent.max.getTime()) {
+    const end = nextPeriodStart(start, granularity);
+    periods.push({
+      key: start.toISOString(),
+      label: periodLabel(start, granularity),
+      start: start.toISOString(),
+      end: end.toISOString()
+    });
+    start = end;
+  }
+  return periods;
+}
+
+/** True when the range does not restrict anything. */
+export function isOpenRange(range: DateRange): boolean {
+  return !range.start && !range.end;
+}
+
+/**
+ * Keep only rows whose survey date falls inside [start, end).
+ * Rows without a valid date are dropped once any bound is set.
+ */
+export function filterByDateRange(cities: SurveyCity[], range: DateRange): SurveyCity[] {
+  if (isOpenRange(range)) return cities;
+  const start = range.start ? new Date(range.start).getTime() : -Infinity;
+  const end = range.end ? new Date(range.end).getTime() : Infinity;
+  return cities.filter((c) => {
+    const d = parseSurveyDate(c.surveyDate);
+    if (!d) return false;
+    const t = d.getTime();
+    return t >= start && t < end;
+  });
+}
+
+/** Convert a `yyyy-mm-dd` date input value to an inclusive range start (UTC midnight). */
+export function dateInputToStart(value: string): string | null {
+  return value ? new Date(`${value}T00:00:00Z`).toISOString() : null;
+}
+
+/** Convert a `yyyy-mm-dd` date input value to an exclusive range end (next UTC midnight). */
+export function dateInputToEnd(value: string): string | null {
+  return value ? new Date(new Date(`${value}T00:00:00Z`).getTime() + DAY_MS).toISOString() : null;
+}
+
+/** Inverse of `dateInputToStart`. */
+export function startToDateInput(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : '';
+}
+
+/** Inverse of `dateInputToEnd`. */
+export function endToDateInput(iso: string | null): string {
+  return iso ? new Date(new Date(iso).getTime() - DAY_MS).toISOString().slice(0, 10) : '';
+}
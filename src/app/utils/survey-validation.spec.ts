@@ -0,0 +1,83 @@
+import { SurveyRowIssue } from '../models/survey-city';
+import { toNumber, validateSurveyRow, validateSurveyRows } from './survey-validation';
+
+function raw(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    city: 'Austin',
+    state: 'Texas',
+    country: 'USA',
+    latitude: 30.3,
+    longitude: -97.7,
+    nps: 42,
+    responseCount: 120,
+    ...overrides
+  };
+}
+
+function validate(row: unknown): { city: ReturnType<typeof validateSurveyRow>; issues: SurveyRowIssue[] } {
+  const issues: SurveyRowIssue[] = [];
+  return { city: validateSurveyRow(row, 1, issues), issues };
+}
+
+describe('toNumber', () => {
+  it('reads numbers and numeric strings', () => {
+    expect(toNumber(7)).toBe(7);
+    expect(toNumber(' 12.5 ')).toBe(12.5);
+  });
+
+  it('treats blanks as missing and other text as NaN', () => {
+    expect(toNumber('')).toBeUndefined();
+    expect(toNumber('  ')).toBeUndefined();
+    expect(toNumber(null)).toBeUndefined();
+    expect(toNumber('abc')).toBeNaN();
+  });
+});
+
+describe('validateSurveyRow', () => {
+  it('coerces a valid row', () => {
+    const { city, issues } = validate(raw({ latitude: '30.3', csat: '81', surveyDate: '2025-02-01' }));
+    expect(issues).toEqual([]);
+    expect(city).toEqual({
+      city: 'Austin',
+      state: 'Texas',
+      country: 'USA',
+      latitude: 30.3,
+      longitude: -97.7,
+      nps: 42,
+      csat: 81,
+      responseCount: 120,
+      surveyDate: new Date('2025-02-01').toISOString()
+    });
+  });
+
+  it('rejects rows that are not objects', () => {
+    expect(validate(['Austin']).issues).toEqual([{ row: 1, message: 'Row is not an object' }]);
+    expect(validate(null).city).toBeNull();
+  });
+
+  it('reports every problem of a row, by field', () => {
+    const { city, issues } = validate(raw({ city: ' ', latitude: 91, nps: 'high', responseCount: 0 }));
+    expect(city).toBeNull();
+    expect(issues.map((i) => i.field)).toEqual(['city', 'latitude', 'nps', 'responseCount']);
+    expect(issues[1].message).toBe('latitude 91 is outside -90–90');
+  });
+
+  it('requires coordinates and an NPS score', () => {
+    const { issues } = validate(raw({ longitude: undefined, nps: '' }));
+    expect(issues.map((i) => i.message)).toEqual(['Missing longitude', 'Missing nps']);
+  });
+
+  it('rejects invalid dates and fractional response counts', () => {
+    const { issues } = validate(raw({ surveyDate: 'soon', responseCount: 2.5 }));
+    expect(issues.map((i) => i.field)).toEqual(['responseCount', 'surveyDate']);
+  });
+});
+
+describe('validateSurveyRows', () => {
+  it('keeps valid rows and numbers issues by source row', () => {
+    const result = validateSurveyRows([raw(), raw({ country: '' }), raw({ city: 'Dallas' })]);
+    expect(result.valid.map((c) => c.city)).toEqual(['Austin', 'Dallas']);
+    expect(result.rejected).toBe(1);
+    expect(result.issues).toEqual([{ row: 2, field: 'country', message: 'Missing country' }]);
+  });
+});
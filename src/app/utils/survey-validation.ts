@@ -0,0 +1,202 @@
+import {
+  ResponseDistribution,
+  SurveyCity,
+  SurveyMetric,
+  SurveyRowIssue,
+  SurveyValidationResult
+} from '../models/survey-city';
+import { DISTRIBUTION_SCALES, distributionTotal, scoreFromDistribution } from './response-distribution';
+import { dimensionName } from './column-mapping';
+
+/** Inclusive valid ranges for numeric survey fields. */
+export const FIELD_RANGES: Record<'latitude' | 'longitude' | 'nps' | 'csat' | 'ces', [number, number]> = {
+  latitude: [-90, 90],
+  longitude: [-180, 180],
+  nps: [-100, 100],
+  csat: [0, 100],
+  ces: [1, 7]
+};
+
+/** Coerce a raw value to a number; empty strings, null and undefined become undefined. */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.trim());
+  return undefined;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Read raw response distributions from a `distribution` object (`{ nps: [..11 counts] }`)
+ * or from flat per-score columns such as `nps_0`…`nps_10`, `csat_1`…`csat_5`, `ces_1`…`ces_7`.
+ */
+function readDistribution(
+  r: Record<string, unknown>,
+  fail: (field: string, message: string) => void
+): ResponseDistribution | undefined {
+  const nested = (r['distribution'] ?? {}) as Record<string, unknown>;
+  let flat: Map<string, unknown> | null = null;
+  const out: ResponseDistribution = {};
+  for (const metric of Object.keys(DISTRIBUTION_SCALES) as SurveyMetric[]) {
+    const { min, buckets } = DISTRIBUTION_SCALES[metric];
+    let raw: unknown[] | undefined = Array.isArray(nested[metric]) ? (nested[metric] as unknown[]) : undefined;
+    if (!raw) {
+      flat ??= new Map(Object.entries(r).map(([k, v]) => [k.toLowerCase().replace(/[^a-z0-9]/g, ''), v]));
+      const cells = Array.from({ length: buckets }, (_, i) => flat!.get(`${metric}${min + i}`));
+      if (cells.some((c) => toNumber(c) !== undefined)) raw = cells.map((c) => c ?? 0);
+    }
+    if (!raw) continue;
+    const field = `distribution.${metric}`;
+    if (raw.length !== buckets) {
+      fail(field, `${metric} distribution needs ${buckets} buckets (got ${raw.length})`);
+      continue;
+    }
+    const counts = raw.map((c) => toNumber(c) ?? 0);
+    if (counts.some((n) => !Number.isInteger(n) || n < 0)) {
+      fail(field, `${metric} distribution counts must be non-negative integers`);
+      continue;
+    }
+    if (distributionTotal(counts) > 0) out[metric] = counts;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/**
+ * Read segment dimensions from a `dimensions` object and from flat dimension columns
+ * (`dim_<name>` or well-known names such as `product`, `channel`, `tier`). Blank values are skipped.
+ */
+function readDimensions(r: Record<string, unknown>): Record<string, string> | undefined {
+  const out: Record<string, string> = {};
+  const nested = r['dimensions'];
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    for (const [name, value] of Object.entries(nested as Record<string, unknown>)) {
+      const text = toText(value);
+      if (name.trim() && text) out[name.trim()] = text;
+    }
+  }
+  for (const [key, value] of Object.entries(r)) {
+    const name = key === 'dimensions' ? null : dimensionName(key);
+    const text = toText(value);
+    if (name && text && !(name in out)) out[name] = text;
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+const FIELD_PREFIX = /^field[_.](.+)$/i;
+
+/**
+ * Read extra numeric fields (revenue, tickets, …) from a `fields` object and from flat
+ * `field_<name>` columns, for field and formula metrics. Blank values are skipped.
+ */
+function readFields(
+  r: Record<string, unknown>,
+  fail: (field: string, message: string) => void
+): Record<string, number> | undefined {
+  const out: Record<string, number> = {};
+  const add = (name: string, value: unknown) => {
+    const n = toNumber(value);
+    if (!name || n === undefined || name in out) return;
+    if (Number.isFinite(n)) out[name] = n;
+    else fail(`fields.${name}`, `${name} is not a number (${toText(value)})`);
+  };
+  const nested = r['fields'];
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    for (const [name, value] of Object.entries(nested as Record<string, unknown>)) add(name.trim(), value);
+  }
+  for (const [key, value] of Object.entries(r)) {
+    const prefixed = FIELD_PREFIX.exec(key.trim());
+    if (prefixed) add(prefixed[1].trim(), value);
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/**
+ * Validate one raw row (from JSON or a parsed CSV record) and coerce it to a SurveyCity.
+ * Returns null and appends to `issues` when the row cannot be plotted safely.
+ */
+export function validateSurveyRow(raw: unknown, row: number, issues: SurveyRowIssue[]): SurveyCity | null {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push({ row, message: 'Row is not an object' });
+    return null;
+  }
+  const r = raw as Record<string, unknown>;
+  const before = issues.length;
+  const fail = (field: string, message: string) => issues.push({ row, field, message });
+
+  const city = toText(r['city']);
+  const country = toText(r['country']);
+  if (!city) fail('city', 'Missing city');
+  if (!country) fail('country', 'Missing country');
+
+  const numeric = (field: keyof typeof FIELD_RANGES, required: boolean): number | undefined => {
+    const n = toNumber(r[field]);
+    if (n === undefined) {
+      if (required) fail(field, `Missing ${field}`);
+      return undefined;
+    }
+    const [min, max] = FIELD_RANGES[field];
+    if (Number.isNaN(n)) fail(field, `${field} is not a number (${toText(r[field])})`);
+    else if (n < min || n > max) fail(field, `${field} ${n} is outside ${min}–${max}`);
+    return n;
+  };
+
+  const distribution = readDistribution(r, fail);
+  const fields = readFields(r, fail);
+  const latitude = numeric('latitude', true);
+  const longitude = numeric('longitude', true);
+  // A summary score may be omitted when the raw distribution is there to derive it from.
+  const nps = numeric('nps', !distribution?.nps) ?? fromDistribution(distribution, 'nps');
+  const csat = numeric('csat', false) ?? fromDistribution(distribution, 'csat');
+  const ces = numeric('ces', false) ?? fromDistribution(distribution, 'ces');
+
+  const responseCount =
+    toNumber(r['responseCount']) ??
+    (distribution ? Math.max(...Object.values(distribution).map(distributionTotal)) : undefined);
+  if (responseCount === undefined) fail('responseCount', 'Missing responseCount');
+  else if (!Number.isInteger(responseCount) || responseCount <= 0) {
+    fail('responseCount', `responseCount must be a positive integer (${toText(r['responseCount'])})`);
+  }
+
+  const surveyDate = toText(r['surveyDate']) || undefined;
+  if (surveyDate && Number.isNaN(new Date(surveyDate).getTime())) {
+    fail('surveyDate', `surveyDate is not a valid date (${surveyDate})`);
+  }
+
+  if (issues.length > before) return null;
+  const parsed: SurveyCity = {
+    city,
+    state: toText(r['state']),
+    country,
+    latitude: latitude!,
+    longitude: longitude!,
+    nps: nps!,
+    responseCount: responseCount!
+  };
+  if (csat !== undefined) parsed.csat = csat;
+  if (ces !== undefined) parsed.ces = ces;
+  if (surveyDate) parsed.surveyDate = new Date(surveyDate).toISOString();
+  if (distribution) parsed.distribution = distribution;
+  const dimensions = readDimensions(r);
+  if (dimensions) parsed.dimensions = dimensions;
+  if (fields) parsed.fields = fields;
+  return parsed;
+}
+
+function fromDistribution(distribution: ResponseDistribution | undefined, metric: SurveyMetric): number | undefined {
+  const buckets = distribution?.[metric];
+  return buckets ? scoreFromDistribution(metric, buckets) : undefined;
+}
+
+/** Validate every row; malformed rows are reported instead of being plotted with defaults. */
+export function validateSurveyRows(rows: unknown[]): SurveyValidationResult {
+  const issues: SurveyRowIssue[] = [];
+  const valid: SurveyCity[] = [];
+  rows.forEach((raw, i) => {
+    const city = validateSurveyRow(raw, i + 1, issues);
+    if (city) valid.push(city);
+  });
+  return { valid, issues, rejected: rows.length - valid.length };
+}
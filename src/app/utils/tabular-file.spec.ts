@@ -0,0 +1,34 @@
+import { firstValueFrom } from 'rxjs';
+import { isSpreadsheetFile, readTabularFile } from './tabular-file';
+
+/** jsdom's File has no `text()`; supply the contents directly. */
+function textFile(name: string, content: string): File {
+  return Object.assign(new File([], name), { text: () => Promise.resolve(content) });
+}
+
+describe('isSpreadsheetFile', () => {
+  it('recognizes workbooks by extension or type', () => {
+    expect(isSpreadsheetFile(new File([], 'Survey.XLSX'))).toBe(true);
+    const type = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    expect(isSpreadsheetFile(new File([], 'upload', { type }))).toBe(true);
+    expect(isSpreadsheetFile(new File([], 'survey.csv', { type: 'text/csv' }))).toBe(false);
+  });
+});
+
+describe('readTabularFile', () => {
+  it('splits the header row off a CSV and drops blank rows', async () => {
+    const file = textFile('survey.csv', 'city,nps\n,\n Austin ,42\n');
+    expect(await firstValueFrom(readTabularFile(file))).toEqual({
+      headers: ['city', 'nps'],
+      rows: [['Austin', '42']]
+    });
+  });
+
+  it('reads .tsv files as tab-separated', async () => {
+    const file = textFile('survey.tsv', 'city\tnps\nLyon, FR\t30');
+    expect(await firstValueFrom(readTabularFile(file))).toEqual({
+      headers: ['city', 'nps'],
+      rows: [['Lyon, FR', '30']]
+    });
+  });
+});
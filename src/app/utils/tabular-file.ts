@@ -0,0 +1,41 @@
+import { Observable, from, map } from 'rxjs';
+import { TabularData } from '../models/survey-city';
+import { parseCsv } from './csv';
+
+/** True for Excel workbooks (.xlsx); everything else is read as delimited text. */
+export function isSpreadsheetFile(file: File): boolean {
+  return (
+    file.name.toLowerCase().endsWith('.xlsx') ||
+    file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
+
+/** Cell value as trimmed text; spreadsheet dates become ISO strings. */
+function cellToText(cell: unknown): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? '' : cell.toISOString();
+  return String(cell).trim();
+}
+
+/** Split a header row off the first rows of a sheet, dropping fully blank rows. */
+function toTabular(rows: unknown[][]): TabularData {
+  const nonEmpty = rows.map((r) => r.map(cellToText)).filter((r) => r.some((c) => c !== ''));
+  const [headers = [], ...data] = nonEmpty;
+  return { headers, rows: data };
+}
+
+/** Read a CSV, TSV or XLSX file (first sheet) into a header row plus text rows. */
+export function readTabularFile(file: File): Observable<TabularData> {
+  if (isSpreadsheetFile(file)) {
+    // Loaded on demand to keep the spreadsheet parser out of the initial bundle.
+    return from(import('read-excel-file/browser').then((m) => m.readSheet(file))).pipe(
+      map((sheet) => toTabular(sheet as unknown[][]))
+    );
+  }
+  return from(file.text()).pipe(
+    map((text) => {
+      const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : ',';
+      return toTabular(parseCsv(text, delimiter));
+    })
+  );
+}
@@ -0,0 +1,128 @@
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import { MetricKey, MetricValueFn, SurveyAggregate, SurveyCity } from '../models/survey-city';
+import { formatCsv } from './csv';
+
+const SURVEY_METRICS: MetricKey[] = ['nps', 'csat', 'ces'];
+
+/** Export file formats offered for the current view. */
+export type ExportFormat = 'csv' | 'geojson' | 'png' | 'svg';
+
+/** One exported region or city: its identity, scores, sample and the colors shown on the map. */
+export interface ExportRow {
+  level: string;
+  name: string;
+  country: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  /** Score per exported metric, in column order. */
+  values: Record<MetricKey, number | undefined>;
+  responseCount: number;
+  surveyDate?: string;
+  colors: Record<MetricKey, string>;
+}
+
+/**
+ * Flatten the drawn items into export rows with a score and color per metric; `colorFor` is
+ * the active theme's color lookup and `valueOf` reads configured metrics.
+ */
+export function exportRows(
+  items: (SurveyAggregate | SurveyCity)[],
+  colorFor: (metric: MetricKey, value: number | undefined) => string,
+  metrics: MetricKey[],
+  valueOf: MetricValueFn
+): ExportRow[] {
+  return items.map((item) => {
+    const aggregate = 'level' in item;
+    const values: Record<MetricKey, number | undefined> = {};
+    const colors: Record<MetricKey, string> = {};
+    for (const metric of metrics) {
+      values[metric] = valueOf(item, metric);
+      colors[metric] = colorFor(metric, values[metric]);
+    }
+    return {
+      level: aggregate ? item.level : 'city',
+      name: aggregate ? item.name : item.city,
+      country: item.country ?? '',
+      state: item.state ?? '',
+      latitude: item.latitude,
+      longitude: item.longitude,
+      values,
+      responseCount: item.responseCount,
+      surveyDate: item.surveyDate,
+      colors
+    };
+  });
+}
+
+/** Metric keys of the rows, in column order. */
+function exportedMetrics(rows: ExportRow[]): MetricKey[] {
+  return rows.length > 0 ? Object.keys(rows[0].values) : SURVEY_METRICS;
+}
+
+/** Identity and position, a column per metric, the sample, then a color column per metric. */
+export function exportRowsToCsv(rows: ExportRow[]): string {
+  const metrics = exportedMetrics(rows);
+  return formatCsv([
+    [
+      'level',
+      'name',
+      'country',
+      'state',
+      'latitude',
+      'longitude',
+      ...metrics,
+      'responseCount',
+      'surveyDate',
+      ...metrics.map((m) => `${m}_color`)
+    ],
+    ...rows.map((r) => [
+      r.level,
+      r.name,
+      r.country,
+      r.state,
+      r.latitude,
+      r.longitude,
+      ...metrics.map((m) => r.values[m]),
+      r.responseCount,
+      r.surveyDate,
+      ...metrics.map((m) => r.colors[m])
+    ])
+  ]);
+}
+
+/** Point features at each item's centroid, with the same fields as the CSV as properties. */
+export function exportRowsToGeoJson(rows: ExportRow[]): FeatureCollection<Point> {
+  const features: Feature<Point>[] = rows.map(({ latitude, longitude, values, colors, ...fields }) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [longitude, latitude] },
+    properties: {
+      ...fields,
+      ...values,
+      ...Object.fromEntries(Object.entries(colors).map(([m, color]) => [`${m}_color`, color]))
+    }
+  }));
+  return { type: 'FeatureCollection', features };
+}
+
+/** Export file name from the drill path, e.g. `survey-map-france-2025-06-01.csv`. */
+export function exportFileName(path: string[], extension: string, now = new Date()): string {
+  const slug = ['survey-map', ...path]
+    .join('-')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}-${now.toISOString().slice(0, 10)}.${extension}`;
+}
+
+/** Save a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+}
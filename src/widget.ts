@@ -0,0 +1,20 @@
+import { provideBrowserGlobalErrorListeners } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { createApplication } from '@angular/platform-browser';
+import { createCustomElement } from '@angular/elements';
+
+/**
+ * Web component entry point (`npm run build:widget`): registers `<survey-map-widget>` so
+ * non-Angular pages can host the map. Inputs are element properties, outputs DOM events
+ * with the payload in `detail`. There is no router, so the view is not kept in the URL.
+ * The map is loaded as its own chunk; elements already on the page upgrade once it is defined.
+ */
+Promise.all([
+  createApplication({ providers: [provideBrowserGlobalErrorListeners(), provideHttpClient()] }),
+  import('./app/components/map/map.component')
+])
+  .then(([app, { MapComponent }]) => {
+    const element = createCustomElement(MapComponent, { injector: app.injector });
+    customElements.define('survey-map-widget', element);
+  })
+  .catch((err) => console.error(err));